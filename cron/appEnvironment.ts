@@ -0,0 +1,4 @@
+// SvelteKit の外でビルドするため、$app/environment の代わりに使う（wrangler.toml の alias）
+// Worker 上で動くのはサーバー側のコードだけなので、常にブラウザではなく本番として扱う
+export const browser = false;
+export const dev = false;
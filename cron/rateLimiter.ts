@@ -0,0 +1,22 @@
+// Pages のレート制限を数える Durable Object（src/lib/rateLimit.ts の createDurableObjectRateLimiter から呼ばれる）
+// クライアントとルートの組ごとに1つ作られるため、中ではメモリ内の固定ウィンドウで数えればよい
+
+import { createMemoryRateLimiter } from '../src/lib/rateLimit';
+
+export class RateLimiterObject {
+	private limiters = new Map<string, RateLimit>();
+
+	async fetch(request: Request): Promise<Response> {
+		const { key, limit, periodSeconds } = (await request.json()) as { key: string; limit: number; periodSeconds: number };
+
+		// 上限の設定が変わったときは数え直す
+		const config = `${limit}/${periodSeconds}`;
+		let limiter = this.limiters.get(config);
+		if (!limiter) {
+			limiter = createMemoryRateLimiter(limit, periodSeconds);
+			this.limiters.set(config, limiter);
+		}
+
+		return Response.json(await limiter.limit({ key }));
+	}
+}
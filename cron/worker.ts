@@ -0,0 +1,36 @@
+// 定期クロール用の Worker
+// Pages のリクエストの制限を受けないよう、Cron Trigger から直接クロールしてスナップショットを KV に保存する
+// Pages から使うレート制限の Durable Object もここで定義する
+
+import { crawlFederationSnapshot } from '../src/lib/crawler';
+import { createKvSnapshotStore } from '../src/lib/snapshot';
+
+export { RateLimiterObject } from './rateLimiter';
+
+interface Env {
+	MISSMAP_KV?: KVNamespace; // Pages と同じ名前空間（wrangler.toml の kv_namespaces）
+}
+
+async function crawl(kv: KVNamespace): Promise<void> {
+	try {
+		const snapshot = await crawlFederationSnapshot(fetch);
+		await createKvSnapshotStore(kv).put(snapshot);
+
+		console.log(
+			`[Cron] Snapshot saved: ${snapshot.servers.length} servers, ${snapshot.federations.length} federations`,
+			snapshot.crawlStats
+		);
+	} catch (e) {
+		console.error('[Cron] Crawl failed:', e);
+	}
+}
+
+export default {
+	async scheduled(_event: unknown, env: Env, ctx: { waitUntil(promise: Promise<unknown>): void }) {
+		if (!env.MISSMAP_KV) {
+			console.error('[Cron] MISSMAP_KV is not bound; skipping crawl');
+			return;
+		}
+		ctx.waitUntil(crawl(env.MISSMAP_KV));
+	}
+};
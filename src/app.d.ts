@@ -5,7 +5,40 @@ declare global {
 		// interface Error {}
 		// interface Locals {}
 		// interface PageData {}
-		// interface Platform {}
+		interface Platform {
+			env?: {
+				// 連合スナップショットの保存先（wrangler.toml の kv_namespaces）
+				MISSMAP_KV?: KVNamespace;
+				// ルートごとのレート制限（wrangler.toml の durable_objects、cron/ の Worker で定義）
+				RATE_LIMITER?: DurableObjectNamespace;
+			};
+			context?: {
+				waitUntil(promise: Promise<unknown>): void;
+			};
+		}
+	}
+
+	// Cloudflare KV のうち使用する部分のみの型
+	interface KVNamespace {
+		get(key: string): Promise<string | null>;
+		get(key: string, type: 'json'): Promise<unknown>;
+		put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+		delete(key: string): Promise<void>;
+	}
+
+	// レート制限の共通の型（src/lib/rateLimit.ts）
+	interface RateLimit {
+		limit(options: { key: string }): Promise<{ success: boolean }>;
+	}
+
+	// Cloudflare Durable Objects のうち使用する部分のみの型
+	interface DurableObjectNamespace {
+		idFromName(name: string): DurableObjectId;
+		get(id: DurableObjectId): { fetch(input: string, init?: RequestInit): Promise<Response> };
+	}
+
+	interface DurableObjectId {
+		toString(): string;
 	}
 }
 
@@ -0,0 +1,6 @@
+// cytoscape-fcose は型定義を同梱していないため、登録に使う部分のみ宣言する
+declare module 'cytoscape-fcose' {
+	import type { Ext } from 'cytoscape';
+	const fcose: Ext;
+	export default fcose;
+}
@@ -0,0 +1,68 @@
+// 視点サーバー間のブロックリストの比較と、その CSV（区切り文字・引用符のエスケープを含む）を確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { FederationInfo } from './collector';
+import { blocklistToCsv, compareBlocklists, type BlocklistComparison } from './blocklist';
+
+function fed(sourceHost: string, targetHost: string, flags: Partial<FederationInfo> = {}): FederationInfo {
+	return { sourceHost, targetHost, usersCount: 0, notesCount: 0, isBlocked: false, isSuspended: false, ...flags };
+}
+
+const FEDERATIONS: FederationInfo[] = [
+	fed('a.example', 'spam.example', { isBlocked: true }),
+	fed('a.example', 'slow.example', { isSuspended: true }),
+	fed('a.example', 'ok.example'),
+	fed('b.example', 'spam.example', { isSuspended: true }),
+	// ブロックと配信停止の両方の記録があればブロックとする
+	fed('b.example', 'spam.example', { isBlocked: true }),
+	fed('b.example', 'bad.example', { isBlocked: true }),
+	fed('c.example', 'ok.example')
+];
+
+describe('compareBlocklists', () => {
+	const comparison = compareBlocklists(['a.example', 'b.example', 'c.example', 'private.example'], FEDERATIONS);
+
+	it('一覧を読み込んだ視点サーバーだけで、ブロック・配信停止の相手をホスト名順に並べる', () => {
+		expect(comparison.viewpoints).toEqual(['a.example', 'b.example', 'c.example']);
+		expect(comparison.missingViewpoints).toEqual(['private.example']);
+		expect(comparison.rows).toEqual([
+			{ host: 'bad.example', blockedBy: ['b.example'], suspendedBy: [] },
+			{ host: 'slow.example', blockedBy: [], suspendedBy: ['a.example'] },
+			{ host: 'spam.example', blockedBy: ['a.example', 'b.example'], suspendedBy: [] }
+		]);
+	});
+
+	it('視点サーバーの組ごとに一致を数える', () => {
+		expect(comparison.agreements).toEqual([
+			{ a: 'a.example', b: 'b.example', both: 1, onlyA: 1, onlyB: 1 },
+			{ a: 'a.example', b: 'c.example', both: 0, onlyA: 2, onlyB: 0 },
+			{ a: 'b.example', b: 'c.example', both: 0, onlyA: 2, onlyB: 0 }
+		]);
+	});
+});
+
+describe('blocklistToCsv', () => {
+	it('視点サーバーごとの列に対応を書き、行を CRLF で区切る', () => {
+		const comparison = compareBlocklists(['a.example', 'b.example'], FEDERATIONS);
+
+		expect(blocklistToCsv(comparison)).toBe(
+			'host,blocked_count,suspended_count,a.example,b.example\r\n' +
+				'bad.example,1,0,,blocked\r\n' +
+				'slow.example,0,1,suspended,\r\n' +
+				'spam.example,2,0,blocked,blocked\r\n'
+		);
+	});
+
+	it('カンマ・引用符・改行を含む値は引用符で囲み、引用符を重ねる', () => {
+		const comparison: BlocklistComparison = {
+			viewpoints: ['a,b'],
+			missingViewpoints: [],
+			rows: [{ host: 'say "hi"\nthere', blockedBy: ['a,b'], suspendedBy: [] }],
+			agreements: []
+		};
+
+		expect(blocklistToCsv(comparison)).toBe(
+			'host,blocked_count,suspended_count,"a,b"\r\n"say ""hi""\nthere",1,0,blocked\r\n'
+		);
+	});
+});
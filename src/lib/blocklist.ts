@@ -0,0 +1,102 @@
+// 視点サーバー間のブロックリストの比較
+// 各視点サーバーの連合一覧のうち、ブロック・配信停止の記録を表にまとめる
+// どのサーバーをブロックすべきかを示すものではなく、各サーバーの対応を並べるだけにとどめる
+
+import type { FederationInfo } from './collector';
+
+export type BlockAction = 'blocked' | 'suspended';
+
+export interface BlocklistRow {
+	host: string;
+	blockedBy: string[]; // ブロックしている視点サーバー
+	suspendedBy: string[]; // 配信停止のみの視点サーバー
+}
+
+// 2つの視点サーバーの一致（ブロック・配信停止のどちらかをしている相手で数える）
+export interface BlocklistAgreement {
+	a: string;
+	b: string;
+	both: number;
+	onlyA: number;
+	onlyB: number;
+}
+
+export interface BlocklistComparison {
+	viewpoints: string[]; // 一覧を読み込んでいる視点サーバー
+	missingViewpoints: string[]; // 一覧を読み込んでいない視点サーバー（非公開など）
+	rows: BlocklistRow[]; // ホスト名順
+	agreements: BlocklistAgreement[];
+}
+
+/**
+ * 視点サーバーごとのブロック・配信停止を比較する
+ */
+export function compareBlocklists(viewpointServers: string[], federations: FederationInfo[]): BlocklistComparison {
+	const loaded = new Set(federations.map((f) => f.sourceHost));
+	const viewpoints = viewpointServers.filter((host) => loaded.has(host));
+	const included = new Set(viewpoints);
+
+	// 視点サーバー → 相手 → 対応
+	const actions = new Map<string, Map<string, BlockAction>>(viewpoints.map((vp) => [vp, new Map()]));
+	for (const fed of federations) {
+		if (!included.has(fed.sourceHost)) continue;
+		if (fed.isBlocked) actions.get(fed.sourceHost)!.set(fed.targetHost, 'blocked');
+		else if (fed.isSuspended && !actions.get(fed.sourceHost)!.has(fed.targetHost)) {
+			actions.get(fed.sourceHost)!.set(fed.targetHost, 'suspended');
+		}
+	}
+
+	const targets = new Set<string>();
+	for (const map of actions.values()) {
+		for (const host of map.keys()) targets.add(host);
+	}
+
+	const rows = Array.from(targets)
+		.sort()
+		.map((host) => ({
+			host,
+			blockedBy: viewpoints.filter((vp) => actions.get(vp)!.get(host) === 'blocked'),
+			suspendedBy: viewpoints.filter((vp) => actions.get(vp)!.get(host) === 'suspended')
+		}));
+
+	const agreements: BlocklistAgreement[] = [];
+	for (let i = 0; i < viewpoints.length; i++) {
+		for (let j = i + 1; j < viewpoints.length; j++) {
+			const a = actions.get(viewpoints[i])!;
+			const b = actions.get(viewpoints[j])!;
+			let both = 0;
+			for (const host of a.keys()) {
+				if (b.has(host)) both++;
+			}
+			agreements.push({ a: viewpoints[i], b: viewpoints[j], both, onlyA: a.size - both, onlyB: b.size - both });
+		}
+	}
+
+	return {
+		viewpoints,
+		missingViewpoints: viewpointServers.filter((host) => !loaded.has(host)),
+		rows,
+		agreements
+	};
+}
+
+function escapeCsv(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 比較結果を CSV にする（視点サーバーごとの列は blocked / suspended / 空欄）
+ */
+export function blocklistToCsv(comparison: BlocklistComparison): string {
+	const header = ['host', 'blocked_count', 'suspended_count', ...comparison.viewpoints];
+	const lines = comparison.rows.map((row) => [
+		row.host,
+		row.blockedBy.length,
+		row.suspendedBy.length,
+		...comparison.viewpoints.map((vp) =>
+			row.blockedBy.includes(vp) ? 'blocked' : row.suspendedBy.includes(vp) ? 'suspended' : ''
+		)
+	]);
+	return [header, ...lines].map((line) => line.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
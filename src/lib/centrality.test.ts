@@ -0,0 +1,63 @@
+// 媒介中心性・PageRank・クラスタ係数を、値の分かっている小さなグラフで確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { WeightedEdge } from './community';
+import { computeCentrality } from './centrality';
+
+function edge(source: string, target: string, weight = 1): WeightedEdge {
+	return { source, target, weight };
+}
+
+describe('computeCentrality', () => {
+	it('星形のグラフでは中心だけが全ての組の間にある', () => {
+		const metrics = computeCentrality(
+			['hub', 'a', 'b', 'c'],
+			[edge('hub', 'a', 2), edge('hub', 'b', 3), edge('c', 'hub', 5)]
+		);
+
+		expect(metrics.get('hub')).toMatchObject({ weightedDegree: 10, degree: 3, betweenness: 1, clustering: 0 });
+		expect(metrics.get('a')).toMatchObject({ weightedDegree: 2, degree: 1, betweenness: 0 });
+	});
+
+	it('一本道では端から端への経路を中間のサーバーが分け合う', () => {
+		const metrics = computeCentrality(['a', 'b', 'c', 'd'], [edge('a', 'b'), edge('b', 'c'), edge('c', 'd')]);
+
+		// b は a-c, a-d の2組、3組中 2/3
+		expect(metrics.get('b')?.betweenness).toBeCloseTo(2 / 3);
+		expect(metrics.get('c')?.betweenness).toBeCloseTo(2 / 3);
+		expect(metrics.get('a')?.betweenness).toBe(0);
+	});
+
+	it('PageRank は平均が1で、重いつながりの多いサーバーほど高い', () => {
+		const metrics = computeCentrality(
+			['hub', 'a', 'b', 'c', 'lonely'],
+			[edge('hub', 'a', 2), edge('hub', 'b', 3), edge('hub', 'c', 5)]
+		);
+		const ranks = Array.from(metrics.values()).map((m) => m.pageRank);
+
+		expect(ranks.reduce((sum, r) => sum + r, 0) / ranks.length).toBeCloseTo(1);
+		expect(metrics.get('hub')!.pageRank).toBeGreaterThan(metrics.get('c')!.pageRank);
+		expect(metrics.get('c')!.pageRank).toBeGreaterThan(metrics.get('a')!.pageRank);
+		expect(metrics.get('lonely')).toMatchObject({ weightedDegree: 0, degree: 0, betweenness: 0 });
+	});
+
+	it('三角形では全員の PageRank が1、クラスタ係数が1になる', () => {
+		const metrics = computeCentrality(['a', 'b', 'c'], [edge('a', 'b'), edge('b', 'c'), edge('c', 'a')]);
+
+		for (const m of metrics.values()) {
+			expect(m.pageRank).toBeCloseTo(1);
+			expect(m.clustering).toBe(1);
+			expect(m.betweenness).toBe(0);
+		}
+	});
+
+	it('同じ組のエッジは重みを合計し、未知のホスト・自己ループは無視する', () => {
+		const metrics = computeCentrality(
+			['a', 'b'],
+			[edge('a', 'b', 1), edge('b', 'a', 2), edge('a', 'a', 5), edge('a', 'z', 5)]
+		);
+
+		expect(metrics.get('a')).toMatchObject({ weightedDegree: 3, degree: 1 });
+		expect(metrics.has('z')).toBe(false);
+	});
+});
@@ -0,0 +1,170 @@
+// 連合グラフ上でのサーバーの位置を表す指標
+// 読み込んだ連合情報だけから計算する記述的な値で、サーバーの良し悪しや順位を表すものではない
+
+import type { WeightedEdge } from './community';
+
+export type CentralityMetric = 'weightedDegree' | 'betweenness' | 'pageRank' | 'clustering';
+
+export interface CentralityMetrics {
+	weightedDegree: number; // つながっているエッジの重み（線の太さ）の合計
+	degree: number; // つながっているサーバーの数
+	betweenness: number; // 0〜1（他のサーバー同士の最短経路上にある割合）
+	pageRank: number; // 1 = 全体の平均
+	clustering: number; // 0〜1（つながり先同士もつながっている割合）
+}
+
+// ポップアップ・ノードの大きさの切り替えに表示する名前と説明
+export const CENTRALITY_LABELS: Record<CentralityMetric, { label: string; description: string }> = {
+	weightedDegree: {
+		label: 'つながりの量',
+		description: 'つながっているサーバーとのやり取り量（線の太さ）の合計'
+	},
+	betweenness: {
+		label: '媒介',
+		description: '他のサーバー同士を最短でつなぐ経路の途中にある割合。界隈と界隈の橋渡しになっていると高くなる'
+	},
+	pageRank: {
+		label: 'PageRank',
+		description: 'やり取りの多いサーバーとつながっているほど高くなる値。1 が全体の平均'
+	},
+	clustering: {
+		label: 'まとまり',
+		description: 'つながっているサーバー同士もつながっている割合。身内で固まった界隈ほど高くなる'
+	}
+};
+
+const PAGE_RANK_DAMPING = 0.85;
+const PAGE_RANK_MAX_ITERATIONS = 100;
+const PAGE_RANK_TOLERANCE = 1e-9;
+
+// 媒介中心性（Brandes 法、ホップ数による最短経路）
+function computeBetweenness(neighbors: number[][]): number[] {
+	const size = neighbors.length;
+	const result = new Array<number>(size).fill(0);
+	const sigma = new Array<number>(size);
+	const distance = new Array<number>(size);
+	const delta = new Array<number>(size);
+	const predecessors: number[][] = Array.from({ length: size }, () => []);
+
+	for (let source = 0; source < size; source++) {
+		const stack: number[] = [];
+		for (let i = 0; i < size; i++) {
+			predecessors[i].length = 0;
+			sigma[i] = 0;
+			distance[i] = -1;
+			delta[i] = 0;
+		}
+		sigma[source] = 1;
+		distance[source] = 0;
+
+		const queue = [source];
+		for (let head = 0; head < queue.length; head++) {
+			const v = queue[head];
+			stack.push(v);
+			for (const w of neighbors[v]) {
+				if (distance[w] < 0) {
+					distance[w] = distance[v] + 1;
+					queue.push(w);
+				}
+				if (distance[w] === distance[v] + 1) {
+					sigma[w] += sigma[v];
+					predecessors[w].push(v);
+				}
+			}
+		}
+
+		while (stack.length > 0) {
+			const w = stack.pop()!;
+			for (const v of predecessors[w]) {
+				delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+			}
+			if (w !== source) result[w] += delta[w];
+		}
+	}
+
+	// 無向グラフなので両方向で2回数えている分と、組の数で割って 0〜1 にする
+	const pairs = ((size - 1) * (size - 2)) / 2;
+	return result.map((value) => (pairs > 0 ? value / 2 / pairs : 0));
+}
+
+// 重み付きの PageRank（平均が 1 になるようにする）
+function computePageRank(adjacency: Map<number, number>[], strength: number[]): number[] {
+	const size = adjacency.length;
+	let rank = new Array<number>(size).fill(1 / size);
+
+	for (let iteration = 0; iteration < PAGE_RANK_MAX_ITERATIONS; iteration++) {
+		const next = new Array<number>(size).fill(0);
+		// つながりのないサーバーの分は全体に均等に配る
+		let dangling = 0;
+		for (let v = 0; v < size; v++) {
+			if (strength[v] === 0) {
+				dangling += rank[v];
+				continue;
+			}
+			for (const [w, weight] of adjacency[v]) {
+				next[w] += (rank[v] * weight) / strength[v];
+			}
+		}
+		let diff = 0;
+		for (let v = 0; v < size; v++) {
+			next[v] = (1 - PAGE_RANK_DAMPING) / size + PAGE_RANK_DAMPING * (next[v] + dangling / size);
+			diff += Math.abs(next[v] - rank[v]);
+		}
+		rank = next;
+		if (diff < PAGE_RANK_TOLERANCE) break;
+	}
+
+	return rank.map((value) => value * size);
+}
+
+// 局所クラスタ係数（重みは使わない）
+function computeClustering(neighbors: number[][], adjacency: Map<number, number>[]): number[] {
+	return neighbors.map((list) => {
+		const k = list.length;
+		if (k < 2) return 0;
+		let links = 0;
+		for (let i = 0; i < k; i++) {
+			for (let j = i + 1; j < k; j++) {
+				if (adjacency[list[i]].has(list[j])) links++;
+			}
+		}
+		return links / ((k * (k - 1)) / 2);
+	});
+}
+
+/**
+ * 連合の重み付きグラフからサーバーごとの指標を計算する
+ * エッジの重みはグラフの線の太さと同じものを渡す
+ */
+export function computeCentrality(hosts: Iterable<string>, edges: WeightedEdge[]): Map<string, CentralityMetrics> {
+	const nodes = Array.from(new Set(hosts)).sort();
+	const index = new Map(nodes.map((host, i) => [host, i]));
+	const adjacency = nodes.map(() => new Map<number, number>());
+
+	for (const edge of edges) {
+		const a = index.get(edge.source);
+		const b = index.get(edge.target);
+		if (a === undefined || b === undefined || a === b || edge.weight <= 0) continue;
+		adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + edge.weight);
+		adjacency[b].set(a, (adjacency[b].get(a) ?? 0) + edge.weight);
+	}
+
+	const neighbors = adjacency.map((map) => Array.from(map.keys()).sort((x, y) => x - y));
+	const strength = adjacency.map((map) => Array.from(map.values()).reduce((sum, w) => sum + w, 0));
+	const betweenness = computeBetweenness(neighbors);
+	const pageRank = nodes.length > 0 ? computePageRank(adjacency, strength) : [];
+	const clustering = computeClustering(neighbors, adjacency);
+
+	return new Map(
+		nodes.map((host, i) => [
+			host,
+			{
+				weightedDegree: strength[i],
+				degree: neighbors[i].length,
+				betweenness: betweenness[i],
+				pageRank: pageRank[i],
+				clustering: clustering[i]
+			}
+		])
+	);
+}
@@ -1,38 +1,5 @@
-// バニラMisskeyのリポジトリURL
-const VANILLA_MISSKEY_REPO = 'https://github.com/misskey-dev/misskey';
-
-/**
- * バニラMisskeyのリポジトリかどうかを判定
- */
-export function isVanillaMisskeyRepo(repositoryUrl: string | null): boolean {
-	if (!repositoryUrl) return false;
-	return repositoryUrl.toLowerCase().includes('github.com/misskey-dev/misskey');
-}
-
-/**
- * リポジトリURLから原色ベースの色を生成（HSLでハッシュベース）
- * Fediverseロゴのような鮮やかな原色を動的に割り当て
- * バニラMisskeyは緑色に固定
- */
-export function getRepositoryColor(repositoryUrl: string | null): string {
-	// バニラMisskeyは緑色に固定
-	if (!repositoryUrl || isVanillaMisskeyRepo(repositoryUrl)) {
-		return 'hsl(80, 100%, 35%)'; // Misskeyグリーン
-	}
-
-	// 文字列のハッシュ値を計算
-	let hash = 0;
-	for (let i = 0; i < repositoryUrl.length; i++) {
-		hash = ((hash << 5) - hash + repositoryUrl.charCodeAt(i)) | 0;
-	}
-
-	// 色相を0-360で決定（原色っぽくなるよう分割、緑(80付近)を避ける）
-	const hueSteps = [0, 30, 60, 180, 200, 240, 280, 320]; // 赤、オレンジ、黄、シアン、青、紫、マゼンタ、ピンク（緑を除外）
-	const hue = hueSteps[Math.abs(hash) % hueSteps.length];
-
-	// 彩度と明度は固定（鮮やかな原色）
-	return `hsl(${hue}, 85%, 55%)`;
-}
+import { detectFederationSource } from './sources';
+import type { ServerInfoProvenance, AgeRestrictionEvidence } from './normalizer';
 
 /**
  * HSL文字列からH, S, L値を抽出
@@ -66,17 +33,8 @@ export function blendColors(color1: string, color2: string): string {
 	return `hsl(${Math.round(h)}, ${s}%, ${l}%)`;
 }
 
-/**
- * リポジトリURLから表示名を抽出（例: "github.com/misskey-dev/misskey" → "misskey-dev/misskey"）
- */
-export function getRepositoryDisplayName(repositoryUrl: string | null): string {
-	if (!repositoryUrl) return 'unknown';
-	// GitHubのURLからオーナー/リポジトリ名を抽出
-	const match = repositoryUrl.match(/github\.com\/([^/]+\/[^/]+)/i);
-	if (match) return match[1];
-	// それ以外はURLそのまま
-	return repositoryUrl.replace(/^https?:\/\//, '');
-}
+// ソフトウェアの系統（APIの互換性で分類）
+export type SoftwareFamily = 'misskey' | 'mastodon' | 'pleroma' | 'gotosocial';
 
 export interface ServerInfo {
 	host: string;
@@ -90,6 +48,8 @@ export interface ServerInfo {
 	softwareName: string | null;
 	softwareVersion: string | null;
 	repositoryUrl: string | null; // GitHubリポジトリURL
+	softwareFamily?: SoftwareFamily; // 未設定の場合はMisskey系（複数ソフトウェア対応前のスナップショット）
+	languages?: string[]; // 未設定の場合は日本語（言語圏の選択に対応する前のスナップショット）
 
 	// 登録要件
 	registrationOpen: boolean;
@@ -99,10 +59,14 @@ export interface ServerInfo {
 
 	// 年齢制限
 	ageRestriction: 'all' | '13+' | '18+' | 'unknown';
+	ageEvidence?: AgeRestrictionEvidence | null; // 判定の根拠（根拠の記録を導入する前のスナップショットにはない）
 
 	// アクティビティ指標（joinmisskey API）
 	dru15: number | null; // Daily Read Users (15日平均)
 	npd15: number | null; // Notes Per Day (15日平均)
+
+	// 各項目の取得元と確からしさ（正規化の導入前のスナップショットにはない）
+	provenance?: ServerInfoProvenance;
 }
 
 export interface FederationInstance {
@@ -113,178 +77,81 @@ export interface FederationInstance {
 	notesCount: number;
 }
 
-// 対象：Misskey純正およびMisskeyを名乗るフォークのみ
-const SUPPORTED_SOFTWARE = ['misskey'];
-
-// バニラMisskeyのバージョンパターン（例: 2024.11.0, 2025.1.0）
-const VANILLA_VERSION_PATTERN = /^\d{4}\.\d{1,2}\.\d+$/;
+// 視点サーバー（source）から見た連合先（target）との関係
+export interface FederationInfo {
+	sourceHost: string;
+	targetHost: string;
+	usersCount: number;
+	notesCount: number;
+	isBlocked: boolean;
+	isSuspended: boolean;
+}
 
 /**
- * バニラMisskeyかどうかを判定
- * - バージョン形式が公式パターン（YYYY.MM.patch）
- * - カスタム文字列が含まれていない
+ * サーバーのメタ情報を取得
+ * NodeInfo でソフトウェアを判定し、対応するアダプターで取得する（未対応のソフトウェアは null）
  */
-function isVanillaMisskey(version: string): boolean {
-	// 公式のバージョン形式かチェック
-	if (!VANILLA_VERSION_PATTERN.test(version)) {
-		return false;
-	}
-	// フォーク特有の文字列が含まれていないか
-	const forkIndicators = ['-', '+', 'custom', 'fork', 'mod'];
-	return !forkIndicators.some((indicator) => version.toLowerCase().includes(indicator));
+export async function fetchServerInfo(host: string): Promise<ServerInfo | null> {
+	const detected = await detectFederationSource(host);
+	if (!detected) return null;
+
+	const result = await detected.source.fetchServerInfo(host, detected.nodeInfo);
+	return result?.info ?? null;
 }
 
 /**
- * NodeInfo を取得してソフトウェア情報を得る
+ * サーバーの連合インスタンス一覧を取得
  */
-async function fetchNodeInfo(host: string): Promise<{ name: string; version: string } | null> {
-	try {
-		// まず well-known から NodeInfo URL を取得
-		const wellKnownRes = await fetch(`https://${host}/.well-known/nodeinfo`, {
-			headers: { Accept: 'application/json' }
-		});
-		if (!wellKnownRes.ok) return null;
-
-		const wellKnown = (await wellKnownRes.json()) as {
-			links?: Array<{ rel: string; href: string }>;
-		};
-		const nodeInfoUrl = wellKnown.links?.find((l) =>
-			l.rel.includes('nodeinfo')
-		)?.href;
-
-		if (!nodeInfoUrl) return null;
-
-		// NodeInfo を取得
-		const nodeInfoRes = await fetch(nodeInfoUrl, {
-			headers: { Accept: 'application/json' }
-		});
-		if (!nodeInfoRes.ok) return null;
-
-		const nodeInfo = (await nodeInfoRes.json()) as {
-			software?: { name?: string; version?: string };
-		};
-		const software = nodeInfo.software;
-
-		if (!software?.name) return null;
+export async function fetchFederationInstances(
+	host: string
+): Promise<FederationInstance[] | null> {
+	const detected = await detectFederationSource(host);
+	if (!detected) return null;
 
-		return {
-			name: software.name.toLowerCase(),
-			version: software.version ?? ''
-		};
-	} catch {
-		return null;
-	}
+	const res = await detected.source.fetchFederationInstances(host, { limit: 100 });
+	return res.ok ? res.data.instances : null;
 }
 
 /**
- * サーバーのメタ情報を取得
+ * サーバーのソフトウェア系統を取得
  */
-export async function fetchServerInfo(host: string): Promise<ServerInfo | null> {
-	try {
-		// NodeInfo でソフトウェアを確認
-		const nodeInfo = await fetchNodeInfo(host);
-		if (!nodeInfo || !SUPPORTED_SOFTWARE.includes(nodeInfo.name)) {
-			return null; // Misskey系以外は無視
-		}
-
-		// Misskey API でメタ情報を取得
-		const res = await fetch(`https://${host}/api/meta`, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({})
-		});
-
-		if (!res.ok) return null;
-
-		const data = (await res.json()) as Record<string, unknown>;
-
-		// 年齢制限の判定
-		let ageRestriction: 'all' | '13+' | '18+' | 'unknown' = 'unknown';
-
-		// policies.ltlAvailability など様々な場所に年齢情報がある可能性
-		const policies = data.policies as Record<string, unknown> | undefined;
-
-		// 名前や説明からの推測
-		const nameAndDesc = `${data.name ?? ''} ${data.description ?? ''}`.toLowerCase();
-		if (/18\+|nsfw|r-?18|adult|成人|アダルト/.test(nameAndDesc)) {
-			ageRestriction = '18+';
-		} else if (/13歳|13才|13\+|中学生以上/.test(nameAndDesc)) {
-			ageRestriction = '13+';
-		} else if (policies && 'requireSetup' in policies) {
-			// 何らかの登録制限があれば13+と推測（多くのサーバーは13歳以上）
-			ageRestriction = '13+';
-		}
-
-		// emailRequiredForSignupがtrueのサーバーは多くが13歳以上制限
-		if (ageRestriction === 'unknown' && (data.emailRequiredForSignup as boolean) === true) {
-			ageRestriction = '13+';
-		}
-
-		// アイコンURLを取得
-		let iconUrl = (data.iconUrl as string) ?? null;
-		if (iconUrl && !iconUrl.startsWith('http')) {
-			iconUrl = `https://${host}${iconUrl.startsWith('/') ? '' : '/'}${iconUrl}`;
-		}
-
-		return {
-			host,
-			name: (data.name as string) ?? null,
-			description: (data.description as string) ?? null,
-			usersCount: (data.originalUsersCount as number) ?? null,
-			notesCount: (data.originalNotesCount as number) ?? null,
-			iconUrl,
-
-			softwareName: nodeInfo.name,
-			softwareVersion: nodeInfo.version,
-			repositoryUrl: (data.repositoryUrl as string) ?? null,
-
-			registrationOpen: (data.disableRegistration as boolean) !== true,
-			emailRequired: (data.emailRequiredForSignup as boolean) === true,
-			approvalRequired: (data.approvalRequiredForSignup as boolean) === true,
-			inviteOnly:
-				(data.policies as Record<string, unknown>)?.canInvite === false ||
-				(data.enableRecaptcha as boolean) === false, // 簡易判定
-
-			ageRestriction,
-
-			// アクティビティ指標はMisskey APIでは取得できないのでnull
-			dru15: null,
-			npd15: null
-		};
-	} catch {
-		return null;
-	}
+export function getSoftwareFamily(server: Pick<ServerInfo, 'softwareFamily'>): SoftwareFamily {
+	return server.softwareFamily ?? 'misskey';
 }
 
 /**
- * サーバーの連合インスタンス一覧を取得
+ * サーバーの言語を取得
  */
-export async function fetchFederationInstances(
-	host: string
-): Promise<FederationInstance[] | null> {
-	try {
-		const res = await fetch(`https://${host}/api/federation/instances`, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				limit: 100,
-				sort: '+pubSub'
-			})
-		});
+export function getServerLanguages(server: Pick<ServerInfo, 'languages'>): string[] {
+	return server.languages ?? ['ja'];
+}
 
-		if (!res.ok) return null;
+/**
+ * サーバーが指定した言語圏に含まれるか（空ならすべて含む）
+ */
+export function isInLanguageScope(server: Pick<ServerInfo, 'languages'>, languages: readonly string[]): boolean {
+	if (languages.length === 0) return true;
+	return getServerLanguages(server).some((lang) => languages.includes(lang));
+}
 
-		const data = (await res.json()) as Array<Record<string, unknown>>;
-		return data.map((instance) => ({
-			host: instance.host as string,
-			isBlocked: (instance.isBlocked as boolean) ?? false,
-			isSuspended: (instance.isSuspended as boolean) ?? false,
-			usersCount: (instance.usersCount as number) ?? 0,
-			notesCount: (instance.notesCount as number) ?? 0
-		}));
-	} catch {
-		return null;
+/**
+ * サーバーの登録状態を判定
+ */
+export function getRegistrationStatus(server: ServerInfo): 'open' | 'approval' | 'invite' | 'closed' {
+	// registrationOpen = false の場合
+	if (!server.registrationOpen) {
+		// 招待制（inviteOnlyフラグがある場合）
+		if (server.inviteOnly) {
+			return 'invite';
+		}
+		// それ以外は停止中
+		return 'closed';
+	}
+	// registrationOpen = true の場合
+	if (server.approvalRequired) {
+		return 'approval';
 	}
+	return 'open';
 }
 
 /**
@@ -0,0 +1,61 @@
+// Louvain 法によるコミュニティ検出が、入力の順序によらず同じ結果を返すことを確かめる
+
+import { describe, expect, it } from 'vitest';
+import { detectCommunities, type WeightedEdge } from './community';
+
+// a 系と x 系の三角形を弱いエッジ1本でつないだグラフ
+const HOSTS = ['a1.example', 'a2.example', 'a3.example', 'x1.example', 'x2.example', 'x3.example'];
+const EDGES: WeightedEdge[] = [
+	{ source: 'a1.example', target: 'a2.example', weight: 5 },
+	{ source: 'a2.example', target: 'a3.example', weight: 5 },
+	{ source: 'a1.example', target: 'a3.example', weight: 5 },
+	{ source: 'x1.example', target: 'x2.example', weight: 5 },
+	{ source: 'x2.example', target: 'x3.example', weight: 5 },
+	{ source: 'x1.example', target: 'x3.example', weight: 5 },
+	{ source: 'a3.example', target: 'x1.example', weight: 1 }
+];
+
+describe('detectCommunities', () => {
+	it('密につながったまとまりをそれぞれ1つのコミュニティにする', () => {
+		const result = detectCommunities(HOSTS, EDGES);
+
+		expect(result.communities.map((c) => c.members)).toEqual([
+			['a1.example', 'a2.example', 'a3.example'],
+			['x1.example', 'x2.example', 'x3.example']
+		]);
+		expect(result.communityOf.get('a2.example')).toBe(0);
+		expect(result.communityOf.get('x2.example')).toBe(1);
+		expect(result.modularity).toBeGreaterThan(0.3);
+	});
+
+	it('ホストやエッジの順序・向きを変えても同じ結果になる', () => {
+		const shuffled = [...EDGES]
+			.reverse()
+			.map((e, i) => (i % 2 === 0 ? { ...e, source: e.target, target: e.source } : e));
+
+		const a = detectCommunities(HOSTS, EDGES);
+		const b = detectCommunities([...HOSTS].reverse(), shuffled);
+
+		expect(b.communities).toEqual(a.communities);
+		expect(b.modularity).toBe(a.modularity);
+	});
+
+	it('エッジのないサーバーは単独のコミュニティになり、未知のホストや自己ループは無視する', () => {
+		const result = detectCommunities([...HOSTS, 'lonely.example'], [
+			...EDGES,
+			{ source: 'lonely.example', target: 'lonely.example', weight: 10 },
+			{ source: 'a1.example', target: 'unknown.example', weight: 10 }
+		]);
+
+		expect(result.communities).toHaveLength(3);
+		expect(result.communities[2]).toMatchObject({ id: 2, members: ['lonely.example'] });
+		expect(result.communityOf.has('unknown.example')).toBe(false);
+	});
+
+	it('エッジが1本もなければ全て単独で、モジュラリティは0', () => {
+		const result = detectCommunities(['b.example', 'a.example'], []);
+
+		expect(result.communities.map((c) => c.members)).toEqual([['a.example'], ['b.example']]);
+		expect(result.modularity).toBe(0);
+	});
+});
@@ -0,0 +1,208 @@
+// 連合関係のコミュニティ（界隈）検出
+// 重み付きの無向グラフに Louvain 法を適用する
+// 共有URLで同じ結果になるよう、乱数を使わず、ノードはホスト名順・同点は小さい番号を優先して処理する
+
+export interface WeightedEdge {
+	source: string;
+	target: string;
+	weight: number;
+}
+
+export interface Community {
+	id: number; // 0 から、メンバー数の多い順
+	members: string[]; // ホスト名順
+	color: string;
+}
+
+export interface CommunityResult {
+	communities: Community[];
+	communityOf: Map<string, number>; // ホスト → コミュニティの id
+	modularity: number;
+}
+
+// 1段階あたりの移動の繰り返し回数の上限（収束しない場合の保険）
+const MAX_PASSES = 50;
+// 集約の段数の上限
+const MAX_LEVELS = 20;
+// これより小さい改善は無視する（浮動小数点の誤差で往復しないように）
+const MIN_GAIN = 1e-12;
+
+// 作業用の重み付きグラフ（ノードは 0..n-1）
+interface WorkGraph {
+	size: number;
+	adjacency: Map<number, number>[]; // 自己ループも含む
+	degree: number[]; // 重み付き次数（自己ループは2倍）
+	totalWeight: number; // 全エッジの重みの合計（m）
+}
+
+function buildWorkGraph(size: number, edges: Array<[number, number, number]>): WorkGraph {
+	const adjacency = Array.from({ length: size }, () => new Map<number, number>());
+	const degree = new Array<number>(size).fill(0);
+	let totalWeight = 0;
+	for (const [a, b, w] of edges) {
+		if (w <= 0) continue;
+		adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + w);
+		if (a !== b) adjacency[b].set(a, (adjacency[b].get(a) ?? 0) + w);
+		degree[a] += w;
+		degree[b] += w;
+		totalWeight += w;
+	}
+	return { size, adjacency, degree, totalWeight };
+}
+
+// 局所移動: 各ノードをモジュラリティが最も上がる隣のコミュニティへ移す
+function moveNodes(graph: WorkGraph): { community: number[]; moved: boolean } {
+	const community = Array.from({ length: graph.size }, (_, i) => i);
+	const total = [...graph.degree]; // コミュニティごとの次数の合計
+	const m2 = graph.totalWeight * 2;
+	let moved = false;
+
+	for (let pass = 0; pass < MAX_PASSES; pass++) {
+		let changed = false;
+		for (let node = 0; node < graph.size; node++) {
+			const current = community[node];
+			const k = graph.degree[node];
+
+			// 隣接するコミュニティへの重み
+			const links = new Map<number, number>();
+			for (const [neighbor, w] of graph.adjacency[node]) {
+				if (neighbor === node) continue;
+				const c = community[neighbor];
+				links.set(c, (links.get(c) ?? 0) + w);
+			}
+
+			// いったん外してから、最も良い移動先を選ぶ（同点なら元のまま、次に番号の小さい方）
+			total[current] -= k;
+			let best = current;
+			let bestGain = (links.get(current) ?? 0) - (total[current] * k) / m2;
+			for (const c of Array.from(links.keys()).sort((a, b) => a - b)) {
+				const gain = links.get(c)! - (total[c] * k) / m2;
+				if (gain > bestGain + MIN_GAIN) {
+					best = c;
+					bestGain = gain;
+				}
+			}
+			total[best] += k;
+
+			if (best !== current) {
+				community[node] = best;
+				changed = true;
+				moved = true;
+			}
+		}
+		if (!changed) break;
+	}
+
+	return { community, moved };
+}
+
+// コミュニティを1つのノードにまとめたグラフを作る
+function aggregate(graph: WorkGraph, community: number[]): { graph: WorkGraph; mapping: number[] } {
+	// 番号を出現順に詰める
+	const renumber = new Map<number, number>();
+	const mapping = community.map((c) => {
+		if (!renumber.has(c)) renumber.set(c, renumber.size);
+		return renumber.get(c)!;
+	});
+
+	const weights = new Map<string, [number, number, number]>();
+	for (let node = 0; node < graph.size; node++) {
+		for (const [neighbor, w] of graph.adjacency[node]) {
+			if (neighbor < node) continue; // 無向なので片側のみ
+			const a = Math.min(mapping[node], mapping[neighbor]);
+			const b = Math.max(mapping[node], mapping[neighbor]);
+			const key = `${a}:${b}`;
+			const entry = weights.get(key);
+			if (entry) entry[2] += w;
+			else weights.set(key, [a, b, w]);
+		}
+	}
+
+	return { graph: buildWorkGraph(renumber.size, Array.from(weights.values())), mapping };
+}
+
+function computeModularity(graph: WorkGraph, community: number[]): number {
+	if (graph.totalWeight === 0) return 0;
+	const m2 = graph.totalWeight * 2;
+	const inner = new Map<number, number>();
+	const total = new Map<number, number>();
+	for (let node = 0; node < graph.size; node++) {
+		const c = community[node];
+		total.set(c, (total.get(c) ?? 0) + graph.degree[node]);
+		for (const [neighbor, w] of graph.adjacency[node]) {
+			if (community[neighbor] !== c) continue;
+			// 自己ループは片側にしかないため2倍する
+			inner.set(c, (inner.get(c) ?? 0) + (neighbor === node ? 2 * w : w));
+		}
+	}
+	let q = 0;
+	for (const [c, tot] of total) {
+		q += (inner.get(c) ?? 0) / m2 - (tot / m2) ** 2;
+	}
+	return q;
+}
+
+/**
+ * コミュニティの色（黄金角で色相をずらして隣の番号と区別しやすくする）
+ */
+export function getCommunityColor(id: number): string {
+	const h = Math.round((id * 137.508 + 200) % 360);
+	return `hsl(${h}, 70%, 55%)`;
+}
+
+/**
+ * 重み付きの連合関係からコミュニティを検出する（同じ入力なら常に同じ結果）
+ * エッジのないノードはそれぞれ単独のコミュニティになる
+ */
+export function detectCommunities(hosts: Iterable<string>, edges: WeightedEdge[]): CommunityResult {
+	const nodes = Array.from(new Set(hosts)).sort();
+	const index = new Map(nodes.map((host, i) => [host, i]));
+
+	// ホスト名順に並べてから作る（入力の順序に左右されないように）
+	const indexedEdges = edges
+		.filter((e) => index.has(e.source) && index.has(e.target) && e.source !== e.target)
+		.map((e): [number, number, number] => {
+			const a = index.get(e.source)!;
+			const b = index.get(e.target)!;
+			return [Math.min(a, b), Math.max(a, b), e.weight];
+		})
+		.sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+
+	const original = buildWorkGraph(nodes.length, indexedEdges);
+	let graph = original;
+	// 元のノード → 現在の段のノード
+	let assignment = nodes.map((_, i) => i);
+
+	if (graph.totalWeight > 0) {
+		for (let level = 0; level < MAX_LEVELS; level++) {
+			const { community, moved } = moveNodes(graph);
+			if (!moved) break;
+			const next = aggregate(graph, community);
+			assignment = assignment.map((node) => next.mapping[node]);
+			graph = next.graph;
+		}
+	}
+
+	// メンバー数の多い順（同数は先頭のホスト名順）に番号を振り直す
+	const groups = new Map<number, string[]>();
+	nodes.forEach((host, i) => {
+		const members = groups.get(assignment[i]);
+		if (members) members.push(host);
+		else groups.set(assignment[i], [host]);
+	});
+	const ordered = Array.from(groups.values()).sort(
+		(a, b) => b.length - a.length || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)
+	);
+
+	const communityOf = new Map<string, number>();
+	const communities = ordered.map((members, id) => {
+		for (const host of members) communityOf.set(host, id);
+		return { id, members, color: getCommunityColor(id) };
+	});
+
+	return {
+		communities,
+		communityOf,
+		modularity: computeModularity(original, nodes.map((host) => communityOf.get(host)!))
+	};
+}
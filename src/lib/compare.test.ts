@@ -0,0 +1,78 @@
+// サーバーの比較（連合先の重なりと、対応の分かれるブロックだけを拾うこと）を確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { FederationInfo } from './collector';
+import { compareServers } from './compare';
+
+function fed(sourceHost: string, targetHost: string, flags: Partial<FederationInfo> = {}): FederationInfo {
+	return { sourceHost, targetHost, usersCount: 0, notesCount: 0, isBlocked: false, isSuspended: false, ...flags };
+}
+
+// a・b・v・w が視点サーバー、c は一覧を読み込んでいない
+const FEDERATIONS: FederationInfo[] = [
+	fed('a.example', 'x.example'),
+	fed('a.example', 'y.example'),
+	fed('a.example', 'b.example'),
+	fed('a.example', 'bad.example', { isBlocked: true }),
+	fed('a.example', 'evil.example', { isBlocked: true }),
+	fed('b.example', 'y.example'),
+	fed('b.example', 'z.example'),
+	fed('b.example', 'bad.example'),
+	fed('b.example', 'evil.example', { isSuspended: true }),
+	fed('b.example', 'spam.example', { isBlocked: true }),
+	fed('v.example', 'a.example', { isBlocked: true }),
+	fed('v.example', 'b.example'),
+	fed('v.example', 'c.example'),
+	fed('w.example', 'a.example', { isSuspended: true }),
+	fed('w.example', 'b.example', { isSuspended: true })
+];
+
+describe('compareServers', () => {
+	it('比較対象どうしを除いた連合先の重なりを返す', () => {
+		const result = compareServers(['a.example', 'b.example'], FEDERATIONS);
+
+		expect(result.partners['a.example']).toEqual(['x.example', 'y.example']);
+		expect(result.overlaps).toEqual([
+			{
+				a: 'a.example',
+				b: 'b.example',
+				shared: ['y.example'],
+				onlyA: ['x.example'],
+				onlyB: ['bad.example', 'z.example'],
+				jaccard: 0.25
+			}
+		]);
+	});
+
+	it('ブロック・配信停止のうち、対応が分かれるものだけを返す', () => {
+		const result = compareServers(['a.example', 'b.example'], FEDERATIONS);
+
+		expect(result.blocking).toEqual([
+			{ target: 'bad.example', states: { 'a.example': 'blocked', 'b.example': 'federating' } },
+			{ target: 'evil.example', states: { 'a.example': 'blocked', 'b.example': 'suspended' } },
+			{ target: 'spam.example', states: { 'a.example': 'none', 'b.example': 'blocked' } }
+		]);
+		// w はどちらも配信停止しているので違いにならない
+		expect(result.blockedBy).toEqual([
+			{ target: 'v.example', states: { 'a.example': 'blocked', 'b.example': 'federating' } }
+		]);
+	});
+
+	it('一覧を読み込んでいないサーバーは相手の一覧から連合先を求め、ブロックは不明とする', () => {
+		const result = compareServers(['a.example', 'c.example'], FEDERATIONS);
+
+		expect(result.hasOwnData).toEqual({ 'a.example': true, 'c.example': false });
+		expect(result.partners['c.example']).toEqual(['v.example']);
+		expect(result.overlaps[0].jaccard).toBe(0);
+		expect(result.blocking.find((row) => row.target === 'bad.example')?.states).toEqual({
+			'a.example': 'blocked',
+			'c.example': 'unknown'
+		});
+	});
+
+	it('どちらにも連合先がなければ重なりは null', () => {
+		const result = compareServers(['p.example', 'q.example'], []);
+
+		expect(result.overlaps[0].jaccard).toBeNull();
+	});
+});
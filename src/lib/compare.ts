@@ -0,0 +1,137 @@
+// サーバーの比較（連合先の重なりとブロックの違い）
+// 読み込んだ視点サーバーの連合・ブロック一覧から計算する
+
+import type { FederationInfo } from './collector';
+
+// 一度に比較できるサーバーの数
+export const MAX_COMPARE_SERVERS = 4;
+
+// 比較対象どうしの連合先の重なり
+export interface PartnerOverlap {
+	a: string;
+	b: string;
+	shared: string[];
+	onlyA: string[];
+	onlyB: string[];
+	jaccard: number | null; // 共通 / 和集合（どちらも連合先がなければ null）
+}
+
+// 比較対象ごとの、あるサーバーとの関係
+// unknown: そのサーバーの一覧を読み込んでいない（または一覧に現れない相手の側の一覧がない）
+export type BlockState = 'blocked' | 'suspended' | 'federating' | 'none' | 'unknown';
+
+export interface BlockDifference {
+	target: string;
+	states: Record<string, BlockState>; // 比較対象のホスト → 関係
+}
+
+export interface ServerComparison {
+	hosts: string[];
+	hasOwnData: Record<string, boolean>; // 自分の連合一覧を読み込んでいるか
+	partners: Record<string, string[]>; // 連合先（比較対象どうしは除く）
+	overlaps: PartnerOverlap[];
+	blocking: BlockDifference[]; // 比較対象がブロックしている相手のうち、対応が分かれるもの
+	blockedBy: BlockDifference[]; // 比較対象をブロックしている視点サーバーのうち、対応が分かれるもの
+}
+
+function toState(fed: FederationInfo | undefined): BlockState {
+	if (!fed) return 'none';
+	if (fed.isBlocked) return 'blocked';
+	if (fed.isSuspended) return 'suspended';
+	return 'federating';
+}
+
+// ブロック・配信停止が含まれ、比較対象の間で関係が分かれるもののみ
+function collectDifferences(rows: Map<string, Record<string, BlockState>>): BlockDifference[] {
+	const result: BlockDifference[] = [];
+	for (const [target, states] of rows) {
+		const values = Object.values(states);
+		const hasBlock = values.some((state) => state === 'blocked' || state === 'suspended');
+		if (hasBlock && new Set(values).size > 1) result.push({ target, states });
+	}
+	return result.sort((x, y) => (x.target < y.target ? -1 : x.target > y.target ? 1 : 0));
+}
+
+/**
+ * 比較対象のサーバーどうしの連合先の重なりとブロックの違いを計算する
+ */
+export function compareServers(hosts: string[], federations: FederationInfo[]): ServerComparison {
+	const compared = new Set(hosts);
+	const viewpoints = new Set(federations.map((f) => f.sourceHost));
+
+	// (source, target) → 記録
+	const records = new Map<string, FederationInfo>();
+	for (const fed of federations) {
+		records.set(`${fed.sourceHost}\n${fed.targetHost}`, fed);
+	}
+	const recordOf = (source: string, target: string) => records.get(`${source}\n${target}`);
+
+	// 連合先: 自分の一覧があればそれを、なければ相手の一覧に現れるものを使う
+	const partners: Record<string, string[]> = {};
+	const hasOwnData: Record<string, boolean> = {};
+	for (const host of hosts) {
+		hasOwnData[host] = viewpoints.has(host);
+		const set = new Set<string>();
+		for (const fed of federations) {
+			if (fed.isBlocked || fed.isSuspended) continue;
+			const partner = hasOwnData[host]
+				? fed.sourceHost === host ? fed.targetHost : null
+				: fed.targetHost === host ? fed.sourceHost : null;
+			if (partner && !compared.has(partner)) set.add(partner);
+		}
+		partners[host] = Array.from(set).sort();
+	}
+
+	const overlaps: PartnerOverlap[] = [];
+	for (let i = 0; i < hosts.length; i++) {
+		for (let j = i + 1; j < hosts.length; j++) {
+			const a = new Set(partners[hosts[i]]);
+			const b = new Set(partners[hosts[j]]);
+			const shared = partners[hosts[i]].filter((host) => b.has(host));
+			const union = a.size + b.size - shared.length;
+			overlaps.push({
+				a: hosts[i],
+				b: hosts[j],
+				shared,
+				onlyA: partners[hosts[i]].filter((host) => !b.has(host)),
+				onlyB: partners[hosts[j]].filter((host) => !a.has(host)),
+				jaccard: union > 0 ? shared.length / union : null
+			});
+		}
+	}
+
+	// 比較対象がブロック・配信停止している相手（自分の一覧から分かる）
+	const blockingRows = new Map<string, Record<string, BlockState>>();
+	for (const fed of federations) {
+		if (!compared.has(fed.sourceHost) || compared.has(fed.targetHost)) continue;
+		if (!fed.isBlocked && !fed.isSuspended) continue;
+		if (blockingRows.has(fed.targetHost)) continue;
+		blockingRows.set(
+			fed.targetHost,
+			Object.fromEntries(
+				hosts.map((host) => [host, hasOwnData[host] ? toState(recordOf(host, fed.targetHost)) : 'unknown'])
+			)
+		);
+	}
+
+	// 比較対象をブロック・配信停止している視点サーバー（その視点の一覧から分かる）
+	const blockedByRows = new Map<string, Record<string, BlockState>>();
+	for (const fed of federations) {
+		if (!compared.has(fed.targetHost) || compared.has(fed.sourceHost)) continue;
+		if (!fed.isBlocked && !fed.isSuspended) continue;
+		if (blockedByRows.has(fed.sourceHost)) continue;
+		blockedByRows.set(
+			fed.sourceHost,
+			Object.fromEntries(hosts.map((host) => [host, toState(recordOf(fed.sourceHost, host))]))
+		);
+	}
+
+	return {
+		hosts,
+		hasOwnData,
+		partners,
+		overlaps,
+		blocking: collectDifferences(blockingRows),
+		blockedBy: collectDifferences(blockedByRows)
+	};
+}
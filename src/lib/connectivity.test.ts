@@ -0,0 +1,149 @@
+// 一方向の疎通の診断と、視点サーバー間の全ペアの疎通確認・その結果のストリームを確かめる
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	buildDirectedPairs,
+	diagnoseReachability,
+	streamConnectivityMatrix,
+	STALE_AFTER_MS,
+	type ConnectivityMatrixLine
+} from './connectivity';
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+// federation/show-instance の応答（問い合わせ先 → 相手 → 応答）
+function stubShowInstance(responses: Record<string, Record<string, () => Response>>) {
+	vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+		const source = new URL(String(input)).host;
+		const { host } = JSON.parse(String(init?.body)) as { host: string };
+		const respond = responses[source]?.[host];
+		if (!respond) throw new Error(`unexpected request: ${source} -> ${host}`);
+		return respond();
+	});
+}
+
+const known = () => Response.json({ host: 'x', latestRequestReceivedAt: new Date().toISOString() });
+const blocked = () => Response.json({ host: 'x', isBlocked: true, latestRequestReceivedAt: new Date().toISOString() });
+const noSuchObject = () =>
+	Response.json({ error: { code: 'NO_SUCH_OBJECT', message: 'No such object.' } }, { status: 400 });
+
+async function readLines(stream: ReadableStream<Uint8Array>): Promise<ConnectivityMatrixLine[]> {
+	const text = await new Response(stream).text();
+	return text.trim().split('\n').map((line) => JSON.parse(line) as ConnectivityMatrixLine);
+}
+
+describe('diagnoseReachability', () => {
+	const now = Date.parse('2024-06-10T00:00:00.000Z');
+	const recent = new Date(now - 60_000).toISOString();
+	const old = new Date(now - STALE_AFTER_MS - 1).toISOString();
+
+	it('相手を知らなければ未連合', () => {
+		expect(diagnoseReachability(null, now)).toEqual({ status: 'not_federated' });
+	});
+
+	it('最近も受け取っていれば正常、しばらく受け取っていなければ停滞', () => {
+		expect(diagnoseReachability({ latestRequestReceivedAt: recent }, now).status).toBe('healthy');
+		expect(diagnoseReachability({ latestRequestReceivedAt: old }, now).status).toBe('stale');
+	});
+
+	it('最後に受け取った日時がない・読めなければ不明', () => {
+		expect(diagnoseReachability({}, now).status).toBe('unknown');
+		expect(diagnoseReachability({ latestRequestReceivedAt: 'yesterday' }, now).status).toBe('unknown');
+	});
+
+	it('ブロック・配信停止・応答なしを日時より優先する', () => {
+		expect(diagnoseReachability({ isBlocked: true, isSuspended: true }, now).status).toBe('blocked');
+		expect(
+			diagnoseReachability({ suspensionState: 'autoSuspendedForNotResponding', latestRequestReceivedAt: recent }, now)
+				.status
+		).toBe('suspended');
+		expect(diagnoseReachability({ isNotResponding: true }, now).status).toBe('not_responding');
+	});
+
+	it('診断の根拠を返す', () => {
+		expect(
+			diagnoseReachability({ latestRequestReceivedAt: recent, followersCount: 3, followingCount: 5 }, now)
+		).toEqual({
+			status: 'healthy',
+			details: {
+				isNotResponding: null,
+				suspensionState: null,
+				latestRequestReceivedAt: recent,
+				followersCount: 3,
+				followingCount: 5
+			}
+		});
+	});
+});
+
+describe('buildDirectedPairs', () => {
+	it('重複を除いたサーバーの全ての向き付きペアを作る', () => {
+		expect(buildDirectedPairs(['a.example', 'b.example', 'a.example', 'c.example'])).toEqual([
+			{ source: 'a.example', target: 'b.example' },
+			{ source: 'a.example', target: 'c.example' },
+			{ source: 'b.example', target: 'a.example' },
+			{ source: 'b.example', target: 'c.example' },
+			{ source: 'c.example', target: 'a.example' },
+			{ source: 'c.example', target: 'b.example' }
+		]);
+	});
+
+	it('1台だけならペアはない', () => {
+		expect(buildDirectedPairs(['a.example', 'a.example'])).toEqual([]);
+	});
+});
+
+describe('streamConnectivityMatrix', () => {
+	it('各方向の結果を1行ずつ送り、最後に件数を送る', async () => {
+		stubShowInstance({
+			'a.example': { 'b.example': known },
+			'b.example': { 'a.example': noSuchObject }
+		});
+
+		const lines = await readLines(streamConnectivityMatrix(['a.example', 'b.example']));
+		const results = lines.filter((line) => line.type === 'result');
+
+		expect(results).toHaveLength(2);
+		expect(results).toContainEqual(
+			expect.objectContaining({ source: 'a.example', target: 'b.example', status: 'healthy', reachable: true })
+		);
+		expect(results).toContainEqual(
+			expect.objectContaining({
+				source: 'b.example',
+				target: 'a.example',
+				status: 'not_federated',
+				reachable: false,
+				error: 'NOT_FEDERATED'
+			})
+		);
+		expect(lines.at(-1)).toEqual({ type: 'done', total: 2 });
+	});
+
+	it('ブロックは疎通していないもの、通信の失敗は確認できなかったものとして送る', async () => {
+		stubShowInstance({
+			'a.example': { 'b.example': blocked },
+			'b.example': {
+				'a.example': () => {
+					throw new TypeError('fetch failed');
+				}
+			}
+		});
+
+		const lines = await readLines(streamConnectivityMatrix(['a.example', 'b.example']));
+
+		expect(lines).toContainEqual(
+			expect.objectContaining({ source: 'a.example', target: 'b.example', status: 'blocked', reachable: false, error: 'BLOCKED' })
+		);
+		expect(lines).toContainEqual(
+			expect.objectContaining({
+				source: 'b.example',
+				target: 'a.example',
+				status: 'unknown',
+				reachable: false,
+				error: 'CONNECTION_FAILED'
+			})
+		);
+	});
+});
@@ -0,0 +1,218 @@
+import { misskeyApi, type MisskeyError } from './misskey';
+import { mapWithConcurrency } from './concurrency';
+
+// 一方向の疎通の診断
+// unknown は問い合わせられなかった（非公開・タイムアウトなど）もので、つながっていないこととは区別する
+export type ReachabilityStatus =
+	| 'healthy' // 最近も配送を受け取っている
+	| 'stale' // 連合しているが、しばらく配送を受け取っていない
+	| 'not_responding' // 相手が応答していないと記録されている
+	| 'blocked'
+	| 'suspended'
+	| 'not_federated' // 相手を知らない
+	| 'unknown';
+
+export const REACHABILITY_LABELS: Record<ReachabilityStatus, string> = {
+	healthy: '正常',
+	stale: '停滞',
+	not_responding: '応答なし',
+	blocked: 'ブロック',
+	suspended: '配信停止',
+	not_federated: '未連合',
+	unknown: '不明'
+};
+
+// 診断に使った連合先の情報（federation/show-instance の応答から）
+export interface ReachabilityDetails {
+	isNotResponding: boolean | null;
+	suspensionState: string | null; // 'none' | 'manuallySuspended' | 'goneSuspended' | 'autoSuspendedForNotResponding'
+	latestRequestReceivedAt: string | null; // 相手から最後に受け取った日時
+	followersCount: number | null; // 相手のサーバーにいるフォロワー数
+	followingCount: number | null; // 相手のサーバーのユーザーをフォローしている数
+}
+
+// サーバーAからサーバーBへの疎通確認の結果
+export interface ConnectivityResult {
+	source: string;
+	target: string;
+	status: ReachabilityStatus;
+	reachable: boolean; // healthy または stale
+	error?: string; // 疎通していない・確認できなかった理由
+	details?: ReachabilityDetails;
+	latency?: number;
+}
+
+// federation/show-instance の応答のうち診断に使う項目（バージョンによってはないものもある）
+interface MisskeyFederationInstance {
+	isBlocked?: boolean;
+	isSuspended?: boolean;
+	suspensionState?: string;
+	isNotResponding?: boolean;
+	latestRequestReceivedAt?: string | null;
+	followersCount?: number;
+	followingCount?: number;
+}
+
+// 一括確認でストリームする各行（NDJSON）
+export type ConnectivityMatrixLine =
+	| ({ type: 'result' } & ConnectivityResult)
+	| { type: 'done'; total: number };
+
+// 一括確認で受け付けるサーバー数の上限（向き付きのペア数は n(n-1)）
+export const MAX_MATRIX_HOSTS = 10;
+// 一括確認で同時に問い合わせる数の上限
+export const MATRIX_CONCURRENCY = 6;
+// 最後の配送からこれより経っていれば停滞とみなす
+export const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 連合先の情報から一方向の疎通を診断する
+ * 相手を知らない（null）場合は未連合
+ */
+export function diagnoseReachability(
+	instance: MisskeyFederationInstance | null,
+	now: number = Date.now()
+): { status: ReachabilityStatus; details?: ReachabilityDetails } {
+	if (!instance) return { status: 'not_federated' };
+
+	const suspensionState = instance.suspensionState ?? (instance.isSuspended ? 'manuallySuspended' : null);
+	const details: ReachabilityDetails = {
+		isNotResponding: instance.isNotResponding ?? null,
+		suspensionState,
+		latestRequestReceivedAt: instance.latestRequestReceivedAt ?? null,
+		followersCount: instance.followersCount ?? null,
+		followingCount: instance.followingCount ?? null
+	};
+
+	if (instance.isBlocked) return { status: 'blocked', details };
+	if (instance.isSuspended || (suspensionState && suspensionState !== 'none')) return { status: 'suspended', details };
+	if (instance.isNotResponding) return { status: 'not_responding', details };
+
+	// 最後に受け取った日時がない・読めない（古いバージョンなど）場合は停滞かどうか判断できない
+	const lastReceived = details.latestRequestReceivedAt ? new Date(details.latestRequestReceivedAt).getTime() : NaN;
+	if (Number.isNaN(lastReceived)) return { status: 'unknown', details };
+	if (now - lastReceived > STALE_AFTER_MS) return { status: 'stale', details };
+	return { status: 'healthy', details };
+}
+
+// MisskeyError から疎通確認結果のエラー種別への変換
+function toConnectivityError(error: MisskeyError): string {
+	switch (error.kind) {
+		case 'NO_SUCH_OBJECT':
+			// サーバーが対象を知らない = 連合していない
+			return 'NOT_FEDERATED';
+		case 'CREDENTIAL_REQUIRED':
+			// 認証必要 = APIが非公開
+			return 'CREDENTIAL_REQUIRED';
+		case 'TIMEOUT':
+			return 'TIMEOUT';
+		case 'NETWORK_ERROR':
+			return 'CONNECTION_FAILED';
+		case 'INVALID_RESPONSE':
+			return 'INVALID_RESPONSE';
+		default:
+			return `API_ERROR: ${error.status}`;
+	}
+}
+
+// 疎通していない診断結果に対応するエラー種別（従来の error との互換）
+const STATUS_ERRORS: Partial<Record<ReachabilityStatus, string>> = {
+	not_responding: 'NOT_RESPONDING',
+	blocked: 'BLOCKED',
+	suspended: 'SUSPENDED',
+	not_federated: 'NOT_FEDERATED'
+};
+
+/**
+ * サーバーAからサーバーBへの疎通確認
+ */
+export async function checkConnectivity(
+	source: string,
+	target: string,
+	timeout: number = 5000
+): Promise<ConnectivityResult> {
+	const startTime = Date.now();
+
+	// Misskey API: federation/show-instance を使用
+	// sourceサーバーがtargetサーバーについて持っている情報から診断する
+	// 疎通確認は多数並行して行うため、再試行はしない
+	const res = await misskeyApi<MisskeyFederationInstance | null>(
+		source,
+		'federation/show-instance',
+		{ host: target },
+		{ timeoutMs: timeout, retries: 0 }
+	);
+	const latency = Date.now() - startTime;
+
+	if (!res.ok) {
+		const error = toConnectivityError(res.error);
+		return {
+			source,
+			target,
+			// 相手を知らないという応答のみ否定、それ以外は確認できなかったもの
+			status: error === 'NOT_FEDERATED' ? 'not_federated' : 'unknown',
+			reachable: false,
+			error,
+			latency
+		};
+	}
+
+	const { status, details } = diagnoseReachability(res.data);
+	const reachable = status === 'healthy' || status === 'stale';
+
+	return {
+		source,
+		target,
+		status,
+		reachable,
+		error: reachable ? undefined : STATUS_ERRORS[status],
+		details,
+		latency
+	};
+}
+
+/**
+ * サーバー一覧の全ての向き付きペアを作る（重複したサーバーは除く）
+ */
+export function buildDirectedPairs(hosts: string[]): { source: string; target: string }[] {
+	const unique = Array.from(new Set(hosts));
+	const pairs: { source: string; target: string }[] = [];
+	for (const source of unique) {
+		for (const target of unique) {
+			if (source !== target) pairs.push({ source, target });
+		}
+	}
+	return pairs;
+}
+
+/**
+ * 全ペアの疎通確認を同時実行数を制限して行い、結果を得られた順に NDJSON でストリームする
+ */
+export function streamConnectivityMatrix(hosts: string[]): ReadableStream<Uint8Array> {
+	const pairs = buildDirectedPairs(hosts);
+	const encoder = new TextEncoder();
+	let cancelled = false;
+
+	return new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send = (line: ConnectivityMatrixLine) => {
+				if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+			};
+
+			await mapWithConcurrency(pairs, MATRIX_CONCURRENCY, async ({ source, target }) => {
+				// クライアントが切断したら残りは問い合わせない
+				if (cancelled) return;
+				const result = await checkConnectivity(source, target).catch(
+					(): ConnectivityResult => ({ source, target, status: 'unknown', reachable: false, error: 'CHECK_FAILED' })
+				);
+				send({ type: 'result', ...result });
+			});
+
+			send({ type: 'done', total: pairs.length });
+			if (!cancelled) controller.close();
+		},
+		cancel() {
+			cancelled = true;
+		}
+	});
+}
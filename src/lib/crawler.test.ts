@@ -0,0 +1,87 @@
+// 種サーバーからの幅優先クロールと、サーバー数・リクエスト数の上限での打ち切りを確かめる
+
+import { describe, expect, it } from 'vitest';
+import { crawlFederationSnapshot, type CrawlOptions } from './crawler';
+
+// 連合一覧（a → b → c → d の一本道）とブロック一覧
+const FEDERATION: Record<string, string[]> = {
+	'a.example': ['b.example'],
+	'b.example': ['a.example', 'c.example'],
+	'c.example': ['b.example', 'd.example'],
+	'd.example': ['c.example']
+};
+const BLOCKED: Record<string, string[]> = {
+	'b.example': ['d.example']
+};
+
+// joinmisskey と各サーバーの federation/instances を返す fetch
+function createFederationApi() {
+	const requests: string[] = [];
+	const fetchFn = (async (input: RequestInfo | URL, init?: RequestInit) => {
+		const url = new URL(String(input));
+		requests.push(url.host);
+		if (url.host === 'instanceapp.misskey.page') {
+			return Response.json({
+				instancesInfos: [
+					// dru15 のある a だけが種になる
+					{ url: 'a.example', langs: ['ja'], isAlive: true, dru15: 10 },
+					...['b.example', 'c.example', 'd.example'].map((host) => ({ url: host, langs: ['ja'], isAlive: true })),
+					{ url: 'de.example', langs: ['de'], isAlive: true, dru15: 50 }
+				]
+			});
+		}
+		const body = JSON.parse(String(init?.body)) as { blocked?: boolean; suspended?: boolean; offset: number };
+		const hosts = body.offset > 0 || body.suspended
+			? []
+			: body.blocked
+				? (BLOCKED[url.host] ?? [])
+				: (FEDERATION[url.host] ?? []);
+		return Response.json(hosts.map((host) => ({ host, usersCount: 1, notesCount: 1, isBlocked: body.blocked ?? false })));
+	}) as typeof fetch;
+	return { fetchFn, requests };
+}
+
+const OPTIONS: Partial<CrawlOptions> = { politenessDelayMs: 0 };
+
+describe('crawlFederationSnapshot', () => {
+	it('種サーバーから対象言語圏のサーバーを階層ごとにたどる', async () => {
+		const { fetchFn, requests } = createFederationApi();
+		const snapshot = await crawlFederationSnapshot(fetchFn, OPTIONS);
+
+		expect(snapshot.crawlStats).toEqual({
+			visitedHosts: 4,
+			respondedHosts: 4,
+			discoveredHosts: 0,
+			maxDepth: 4,
+			budgetExhausted: false,
+			// joinmisskey + 4サーバー × (連合一覧 + ブロック一覧 + 配信停止一覧)
+			subrequests: 13
+		});
+		expect(requests).not.toContain('de.example');
+		expect(snapshot.servers.map((s) => s.host).sort()).toEqual(['a.example', 'b.example', 'c.example', 'd.example']);
+		expect(snapshot.federations).toContainEqual(
+			expect.objectContaining({ sourceHost: 'c.example', targetHost: 'd.example', isBlocked: false })
+		);
+		expect(snapshot.federations).toContainEqual(
+			expect.objectContaining({ sourceHost: 'b.example', targetHost: 'd.example', isBlocked: true })
+		);
+		expect(snapshot.topByDru15).toEqual(['a.example']);
+	});
+
+	it('サーバー数の上限に達したら未訪問のサーバーを残して打ち切る', async () => {
+		const { fetchFn } = createFederationApi();
+		const snapshot = await crawlFederationSnapshot(fetchFn, { ...OPTIONS, maxHosts: 2 });
+
+		expect(snapshot.crawlStats).toMatchObject({ visitedHosts: 2, maxDepth: 2, budgetExhausted: true });
+		expect(snapshot.federations.some((fed) => fed.sourceHost === 'c.example')).toBe(false);
+	});
+
+	it('リクエスト数の上限に達したら残りのサーバーには問い合わせない', async () => {
+		const { fetchFn, requests } = createFederationApi();
+		const snapshot = await crawlFederationSnapshot(fetchFn, { ...OPTIONS, maxSubrequests: 7 });
+
+		// joinmisskey + a と b の3リクエストずつで使い切る
+		expect(requests).toHaveLength(7);
+		expect(snapshot.crawlStats).toMatchObject({ visitedHosts: 2, budgetExhausted: true, subrequests: 7 });
+	});
+});
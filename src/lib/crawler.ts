@@ -0,0 +1,402 @@
+import { isInLanguageScope, type ServerInfo, type FederationInfo, type FederationInstance } from './collector';
+import type { FederationSnapshot, CrawlStats, TopServers } from './snapshot';
+import { requestJson, formatMisskeyError } from './misskey';
+import { misskeySource, detectFederationSource, type FederationSource, type NodeInfo } from './sources';
+import { normalizeServerInfo, type JoinMisskeyInstance } from './normalizer';
+import { mapWithConcurrency } from './concurrency';
+import { selectCoverageViewpoints, type ViewpointCoverage } from './viewpointCoverage';
+
+const JOINMISSKEY_API = 'https://instanceapp.misskey.page/instances.json';
+
+// 多段クロールの設定
+export interface CrawlOptions {
+	concurrency: number; // 同時に問い合わせるサーバー数の上限
+	politenessDelayMs: number; // 同一ホストへのリクエスト間隔
+	maxHosts: number; // 問い合わせるMisskeyサーバー数の上限（クロール予算）
+	maxDiscoveredHosts: number; // joinmisskey に載っていないサーバーを調べる数の上限
+	listLimit: number; // 1サーバーあたりの連合・ブロック・配信停止一覧の取得件数の上限
+	maxSubrequests: number; // 1回のクロールで送るリクエスト数の上限（再試行・ページングを含む）
+	languages: string[]; // 対象とする言語圏（joinmisskey の langs で判定）
+}
+
+// Misskeyサーバーは1ホストあたり最低3リクエスト（連合一覧 + ブロック一覧 + 配信停止一覧）で、
+// listLimit を超える分のページングや 429/5xx の再試行でさらに増えるため、ホスト数だけでは上限を守れない
+// 送ったリクエストを maxSubrequests まで数えて打ち切り、Workers のサブリクエスト上限（有料プランで1000）に収める
+// （残りは KV への保存などのために空けておく）
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+	concurrency: 6,
+	politenessDelayMs: 1000,
+	maxHosts: 250,
+	maxDiscoveredHosts: 40,
+	listLimit: 100,
+	maxSubrequests: 950,
+	languages: ['ja', 'ko', 'en']
+};
+
+// 言語ごとに事前計算するトップ候補の件数
+const TOP_SERVERS_PER_LANGUAGE = 10;
+
+// 他ソフトウェアのサーバーを調べる条件（クロールしたサーバーのうち何台と連合しているか）
+const DISCOVERY_MIN_REFERENCES = 3;
+
+interface JoinMisskeyResponse {
+	instancesInfos: JoinMisskeyInstance[];
+}
+
+/**
+ * URLからホスト名を抽出
+ */
+export function extractHost(url: string): string {
+	let host = url;
+	try {
+		// URLの場合はホスト名を抽出
+		if (host.includes('://')) {
+			host = new URL(host).hostname;
+		}
+		// 末尾のスラッシュを削除
+		host = host.replace(/\/$/, '');
+	} catch {
+		// パースに失敗したらそのまま使用
+	}
+	return host;
+}
+
+// joinmisskey APIのインスタンス情報をServerInfoに変換
+function convertToServerInfo(instance: JoinMisskeyInstance): ServerInfo | null {
+	if (!instance.isAlive) return null;
+	return normalizeServerInfo(extractHost(instance.url), 'misskey', { joinMisskey: instance });
+}
+
+// 指定した言語の各基準のトップ候補を計算
+function computeTopServers(instances: JoinMisskeyInstance[], servers: ServerInfo[], lang: string): TopServers {
+	const activeInstances = instances.filter((instance) => instance.langs.includes(lang) && instance.isAlive);
+
+	const dru15 = activeInstances
+		.filter((instance) => (instance.dru15 ?? 0) > 0)
+		.sort((a, b) => (b.dru15 ?? 0) - (a.dru15 ?? 0))
+		.slice(0, TOP_SERVERS_PER_LANGUAGE)
+		.map(instance => extractHost(instance.url));
+
+	const npd15 = activeInstances
+		.filter((instance) => (instance.npd15 ?? 0) > 0)
+		.sort((a, b) => (b.npd15 ?? 0) - (a.npd15 ?? 0))
+		.slice(0, TOP_SERVERS_PER_LANGUAGE)
+		.map(instance => extractHost(instance.url));
+
+	const users = servers
+		.filter((server) => server.languages?.includes(lang) && (server.usersCount ?? 0) > 0)
+		.sort((a, b) => (b.usersCount ?? 0) - (a.usersCount ?? 0))
+		.slice(0, TOP_SERVERS_PER_LANGUAGE)
+		.map(server => server.host);
+
+	return { dru15, npd15, users };
+}
+
+// 1サーバー分のクロール結果（相手先はまだ絞り込んでいない）
+interface CrawledHost {
+	host: string;
+	instances: FederationInstance[]; // 連合一覧
+	blocked: FederationInstance[]; // ブロック・配信停止一覧
+	truncated: boolean; // いずれかの一覧を上限や失敗で打ち切ったか
+}
+
+// アダプター経由で連合・ブロック一覧を取得（取得できなければ null）
+async function crawlHost(
+	source: FederationSource,
+	host: string,
+	fetchFn: typeof fetch,
+	listLimit: number,
+	nodeInfo: NodeInfo | null = null
+): Promise<CrawledHost | null> {
+	const options = { fetchFn, limit: listLimit, pageSize: 100 };
+	const [instances, blocked] = await Promise.all([
+		source.fetchFederationInstances(host, options),
+		source.fetchBlockedInstances(host, options, nodeInfo)
+	]);
+	if (!instances.ok && !blocked.ok) return null;
+
+	return {
+		host,
+		instances: instances.ok ? instances.data.instances : [],
+		blocked: blocked.ok ? blocked.data.instances : [],
+		// ブロック一覧の非公開は打ち切りとは扱わない
+		truncated: (instances.ok && instances.data.truncated) || (blocked.ok && blocked.data.truncated)
+	};
+}
+
+// 正常な連合関係（ブロック/サスペンドは除外）
+function isNormalInstance(inst: FederationInstance): boolean {
+	return !inst.isBlocked && !inst.isSuspended;
+}
+
+// クロール結果を FederationInfo に変換（相手先が表示対象のサーバーに含まれるもののみ）
+function toFederationInfos(crawled: CrawledHost, targetHosts: Set<string>): FederationInfo[] {
+	const toInfo = (inst: FederationInstance): FederationInfo => ({
+		sourceHost: crawled.host,
+		targetHost: inst.host,
+		usersCount: inst.usersCount,
+		notesCount: inst.notesCount,
+		isBlocked: inst.isBlocked,
+		isSuspended: inst.isSuspended
+	});
+
+	return [
+		...crawled.instances.filter((inst) => isNormalInstance(inst) && targetHosts.has(inst.host)).map(toInfo),
+		...crawled.blocked.filter((inst) => targetHosts.has(inst.host)).map(toInfo)
+	];
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 同一ホストへのリクエストが politenessDelayMs 以上の間隔になるよう待機する fetch
+ * 呼び出し時点で送信枠を予約するため、並行に呼ばれても間隔が守られる
+ */
+function createPoliteFetch(fetchFn: typeof fetch, politenessDelayMs: number): typeof fetch {
+	const nextSlot = new Map<string, number>();
+
+	return (async (input: RequestInfo | URL, init?: RequestInit) => {
+		const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+		const host = new URL(url).host;
+
+		const now = Date.now();
+		const slot = Math.max(now, nextSlot.get(host) ?? 0);
+		nextSlot.set(host, slot + politenessDelayMs);
+		if (slot > now) {
+			await sleep(slot - now);
+		}
+		return fetchFn(input, init);
+	}) as typeof fetch;
+}
+
+// 送ったリクエスト数を数える fetch（上限に達した後のリクエストは送らずに失敗させる）
+interface SubrequestBudget {
+	fetch: typeof fetch;
+	used(): number;
+	exhausted(): boolean;
+}
+
+/**
+ * 再試行やページングも1回ずつ数えるため、クロール中のすべてのリクエストはこの fetch を通す
+ */
+function createSubrequestBudget(fetchFn: typeof fetch, maxSubrequests: number): SubrequestBudget {
+	let used = 0;
+
+	return {
+		fetch: (async (input: RequestInfo | URL, init?: RequestInit) => {
+			if (used >= maxSubrequests) {
+				throw new Error('Subrequest budget exhausted');
+			}
+			used++;
+			return fetchFn(input, init);
+		}) as typeof fetch,
+		used: () => used,
+		exhausted: () => used >= maxSubrequests
+	};
+}
+
+/**
+ * 種サーバーから連合先をたどって幅優先でクロールする
+ * knownHosts（対象言語圏のMisskeyサーバー）のうち連合一覧を公開しているものを順に問い合わせ、
+ * 各サーバー自身の連合・ブロック関係を集める
+ */
+async function crawlMisskeyHosts(
+	fetchFn: typeof fetch,
+	budget: SubrequestBudget,
+	seeds: string[],
+	knownHosts: Set<string>,
+	options: CrawlOptions
+): Promise<{ crawled: CrawledHost[]; visited: number; depth: number; budgetExhausted: boolean }> {
+	const crawled: CrawledHost[] = [];
+	const enqueued = new Set<string>(seeds);
+	let frontier = seeds.filter((host) => knownHosts.has(host));
+	let visited = 0;
+	let depth = 0;
+	let skipped = false;
+
+	while (frontier.length > 0 && visited < options.maxHosts && !budget.exhausted()) {
+		const level = frontier.slice(0, options.maxHosts - visited);
+
+		// 同一ホストへの複数リクエストは politeFetch により間隔を空けて送られる
+		const results = await mapWithConcurrency(level, options.concurrency, (host) => {
+			// リクエスト数の上限に達したら、残りのホストには問い合わせない
+			if (budget.exhausted()) {
+				skipped = true;
+				return Promise.resolve(null);
+			}
+			visited++;
+			return crawlHost(misskeySource, host, fetchFn, options.listLimit);
+		});
+
+		const nextFrontier: string[] = [];
+		for (const result of results) {
+			if (!result) continue;
+			crawled.push(result);
+
+			// 正常に連合している対象言語圏のMisskeyサーバーのみ次の階層としてたどる
+			for (const inst of result.instances) {
+				if (isNormalInstance(inst) && knownHosts.has(inst.host) && !enqueued.has(inst.host)) {
+					enqueued.add(inst.host);
+					nextFrontier.push(inst.host);
+				}
+			}
+		}
+
+		frontier = nextFrontier;
+		depth++;
+	}
+
+	return {
+		crawled,
+		visited,
+		depth,
+		// 未訪問のホストが残ったまま予算（ホスト数かリクエスト数）に達した
+		budgetExhausted: skipped || (frontier.length > 0 && (visited >= options.maxHosts || budget.exhausted()))
+	};
+}
+
+/**
+ * joinmisskey に載っていない連合先（Mastodon など）のうち、多くのサーバーと連合しているものを調べる
+ * 対応するソフトウェアで、対象言語のいずれかを使用言語に含むサーバーのみを追加する
+ */
+async function discoverOtherServers(
+	fetchFn: typeof fetch,
+	budget: SubrequestBudget,
+	crawled: CrawledHost[],
+	knownHosts: Set<string>,
+	options: CrawlOptions
+): Promise<Array<{ info: ServerInfo; crawled: CrawledHost | null }>> {
+	const referenceCounts = new Map<string, number>();
+	for (const result of crawled) {
+		for (const inst of result.instances) {
+			if (isNormalInstance(inst) && !knownHosts.has(inst.host)) {
+				referenceCounts.set(inst.host, (referenceCounts.get(inst.host) ?? 0) + 1);
+			}
+		}
+	}
+
+	const candidates = Array.from(referenceCounts)
+		.filter(([, count]) => count >= DISCOVERY_MIN_REFERENCES)
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.slice(0, options.maxDiscoveredHosts)
+		.map(([host]) => host);
+
+	const results = await mapWithConcurrency(candidates, options.concurrency, async (host) => {
+		if (budget.exhausted()) return null;
+		const detected = await detectFederationSource(host, { fetchFn });
+		if (!detected) return null;
+
+		const server = await detected.source.fetchServerInfo(host, detected.nodeInfo, { fetchFn });
+		if (!server || !server.languages.some((lang) => options.languages.includes(lang))) return null;
+
+		return {
+			info: server.info,
+			crawled: await crawlHost(detected.source, host, fetchFn, options.listLimit, detected.nodeInfo)
+		};
+	});
+
+	return results.filter((result) => result !== null);
+}
+
+/**
+ * joinmisskey と各種サーバーの公開APIを巡回し、連合スナップショットを作成する
+ * 定期クロール（cron/ の Worker）からのみ呼び出す想定で、ページ表示時には実行しない
+ */
+export async function crawlFederationSnapshot(
+	fetchFn: typeof fetch = fetch,
+	options: Partial<CrawlOptions> = {}
+): Promise<FederationSnapshot> {
+	const crawlOptions = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+	const budget = createSubrequestBudget(fetchFn, crawlOptions.maxSubrequests);
+
+	const res = await requestJson<JoinMisskeyResponse>(JOINMISSKEY_API, {}, { fetchFn: budget.fetch, timeoutMs: 30000 });
+	if (!res.ok) {
+		throw new Error(`Failed to fetch joinmisskey API: ${formatMisskeyError(res.error)}`);
+	}
+
+	const data = res.data;
+
+	// 対象言語圏のサーバーのみをフィルタリング
+	const scopedInstances = data.instancesInfos.filter((instance) =>
+		instance.langs.some((lang) => crawlOptions.languages.includes(lang))
+	);
+	const scopedServers = scopedInstances
+		.map(convertToServerInfo)
+		.filter((server): server is ServerInfo => server !== null);
+
+	const knownHosts = new Set(scopedServers.map((s) => s.host));
+
+	// 言語ごとに全基準（dru15, npd15, users）のトップ10を事前計算（クライアント側でAPI呼び出し不要に）
+	const topByLanguage: Record<string, TopServers> = {};
+	for (const lang of crawlOptions.languages) {
+		topByLanguage[lang] = computeTopServers(scopedInstances, scopedServers, lang);
+	}
+	const topServers = Object.values(topByLanguage);
+
+	// 全候補を統合（重複排除）し、種サーバーとして連合先をたどる
+	const allCandidates = Array.from(new Set(topServers.flatMap((top) => [...top.dru15, ...top.npd15, ...top.users])));
+	const politeFetch = createPoliteFetch(budget.fetch, crawlOptions.politenessDelayMs);
+	const misskeyCrawl = await crawlMisskeyHosts(politeFetch, budget, allCandidates, knownHosts, crawlOptions);
+
+	// Mastodon など他のソフトウェアの対象言語圏のサーバーを追加
+	const discovered = await discoverOtherServers(politeFetch, budget, misskeyCrawl.crawled, knownHosts, crawlOptions);
+	const servers = [...scopedServers, ...discovered.map((d) => d.info)];
+	const serverHosts = new Set(servers.map((s) => s.host));
+
+	const allCrawled = [
+		...misskeyCrawl.crawled,
+		...discovered.map((d) => d.crawled).filter((c): c is CrawledHost => c !== null)
+	];
+	const federations = allCrawled.flatMap((crawled) => toFederationInfos(crawled, serverHosts));
+
+	const stats: CrawlStats = {
+		visitedHosts: misskeyCrawl.visited,
+		respondedHosts: allCrawled.length,
+		discoveredHosts: discovered.length,
+		maxDepth: misskeyCrawl.depth,
+		budgetExhausted: misskeyCrawl.budgetExhausted,
+		subrequests: budget.used()
+	};
+
+	// 連合情報が取得できたサーバーのセット
+	const serversWithFederation = new Set<string>();
+	for (const fed of federations) {
+		serversWithFederation.add(fed.sourceHost);
+	}
+
+	// 各基準のトップ候補を連合情報があるものだけにフィルタリング
+	const withFederation = (hosts: string[]) => hosts.filter(host => serversWithFederation.has(host));
+	const filteredTopByLanguage: Record<string, TopServers> = {};
+	for (const [lang, top] of Object.entries(topByLanguage)) {
+		filteredTopByLanguage[lang] = {
+			dru15: withFederation(top.dru15),
+			npd15: withFederation(top.npd15),
+			users: withFederation(top.users)
+		};
+	}
+	// 言語ごとの網羅性を重視した視点サーバー（既知のサーバー = その言語圏のサーバー）
+	// ページ表示のたびに計算しないよう、スナップショットに含めておく
+	const coverageByLanguage: Record<string, ViewpointCoverage> = {};
+	for (const lang of crawlOptions.languages) {
+		const knownHosts = servers.filter((s) => isInLanguageScope(s, [lang])).map((s) => s.host);
+		coverageByLanguage[lang] = selectCoverageViewpoints(federations, knownHosts);
+	}
+
+	// 言語を指定しない場合（言語圏の選択に対応する前のクライアント）は先頭の言語のものを使う
+	const primaryTop = filteredTopByLanguage[crawlOptions.languages[0]] ?? { dru15: [], npd15: [], users: [] };
+
+	return {
+		fetchedAt: new Date().toISOString(),
+		servers,
+		federations,
+		topByDru15: primaryTop.dru15,
+		topByNpd15: primaryTop.npd15,
+		topByUsers: primaryTop.users,
+		topByLanguage: filteredTopByLanguage,
+		coverageByLanguage,
+		truncatedHosts: allCrawled.filter((crawled) => crawled.truncated).map((crawled) => crawled.host),
+		crawlStats: stats
+	};
+}
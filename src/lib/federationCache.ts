@@ -0,0 +1,99 @@
+import type { FederationInfo, SoftwareFamily } from './collector';
+
+// 視点サーバーの連合情報（未認証で取得したもののみ共有キャッシュに保存する）
+export interface CachedFederation {
+	fetchedAt: string; // 取得日時（ISO 8601）
+	federations: FederationInfo[];
+	softwareFamily: SoftwareFamily;
+	truncated: boolean;
+}
+
+// 連合情報のキャッシュの保存先
+export interface FederationCacheStore {
+	get(host: string): Promise<CachedFederation | null>;
+	put(entry: CachedFederation & { host: string }): Promise<void>;
+}
+
+// この時間内はそのまま返す
+export const FEDERATION_CACHE_TTL_MS = 10 * 60 * 1000;
+// TTL を過ぎてからこの時間内は古いものを返しつつ裏で取り直す（stale-while-revalidate）
+export const FEDERATION_CACHE_STALE_MS = 60 * 60 * 1000;
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+function cacheKey(host: string): string {
+	return `federation:${host.toLowerCase()}`;
+}
+
+/**
+ * キャッシュの鮮度を判定
+ */
+export function getCacheFreshness(entry: Pick<CachedFederation, 'fetchedAt'>, now: number = Date.now()): CacheFreshness {
+	const age = now - new Date(entry.fetchedAt).getTime();
+	if (age < FEDERATION_CACHE_TTL_MS) return 'fresh';
+	if (age < FEDERATION_CACHE_TTL_MS + FEDERATION_CACHE_STALE_MS) return 'stale';
+	return 'expired';
+}
+
+/**
+ * Cloudflare KV をバックエンドにしたキャッシュ
+ * 期限切れのものは KV 側で削除される
+ */
+export function createKvFederationCache(kv: KVNamespace): FederationCacheStore {
+	return {
+		async get(host) {
+			return (await kv.get(cacheKey(host), 'json')) as CachedFederation | null;
+		},
+		async put({ host, ...entry }) {
+			await kv.put(cacheKey(host), JSON.stringify(entry), {
+				expirationTtl: Math.ceil((FEDERATION_CACHE_TTL_MS + FEDERATION_CACHE_STALE_MS) / 1000)
+			});
+		}
+	};
+}
+
+// ローカル開発用のメモリ内キャッシュ
+// 注意: サーバー再起動で失われる
+const memoryEntries = new Map<string, CachedFederation>();
+
+export const memoryFederationCache: FederationCacheStore = {
+	async get(host) {
+		const entry = memoryEntries.get(cacheKey(host));
+		if (!entry) return null;
+		if (getCacheFreshness(entry) === 'expired') {
+			memoryEntries.delete(cacheKey(host));
+			return null;
+		}
+		return entry;
+	},
+	async put({ host, ...entry }) {
+		memoryEntries.set(cacheKey(host), entry);
+	}
+};
+
+/**
+ * 実行環境に応じたキャッシュを取得
+ * KVバインディングがなければメモリ内キャッシュで代用する
+ */
+export function getFederationCache(platform: App.Platform | undefined): FederationCacheStore {
+	const kv = platform?.env?.MISSMAP_KV;
+	return kv ? createKvFederationCache(kv) : memoryFederationCache;
+}
+
+// 同じサーバーの取り直しを重複させないため、実行中のものを保持する（同一インスタンス内のみ）
+const revalidating = new Map<string, Promise<unknown>>();
+
+/**
+ * 裏でキャッシュを取り直す（実行中なら何もしない）
+ */
+export function revalidateInBackground(host: string, revalidate: () => Promise<unknown>): Promise<unknown> {
+	const key = cacheKey(host);
+	const running = revalidating.get(key);
+	if (running) return running;
+
+	const promise = revalidate()
+		.catch((e) => console.error(`Failed to revalidate federation cache for ${host}:`, e))
+		.finally(() => revalidating.delete(key));
+	revalidating.set(key, promise);
+	return promise;
+}
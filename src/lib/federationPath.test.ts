@@ -0,0 +1,76 @@
+// 連合関係の経路探索（最短・最も太い経路）と、見つからない理由の区別を確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { FederationInfo } from './collector';
+import { findFederationPath } from './federationPath';
+
+function fed(sourceHost: string, targetHost: string, usersCount: number, flags: Partial<FederationInfo> = {}): FederationInfo {
+	return { sourceHost, targetHost, usersCount, notesCount: 0, isBlocked: false, isSuspended: false, ...flags };
+}
+
+// a-d は直結だが細く、a-c-d は遠回りだが太い
+// e へは d のブロックを通らなければたどれず、f-g は他とつながっていない
+const FEDERATIONS: FederationInfo[] = [
+	fed('a.example', 'd.example', 1),
+	fed('a.example', 'b.example', 10),
+	fed('b.example', 'd.example', 2),
+	fed('a.example', 'c.example', 5),
+	fed('d.example', 'c.example', 5),
+	fed('d.example', 'e.example', 8, { isBlocked: true }),
+	fed('f.example', 'g.example', 3)
+];
+
+describe('findFederationPath', () => {
+	it('shortest はホップ数の最も少ない経路を返す', () => {
+		const path = findFederationPath(FEDERATIONS, 'a.example', 'd.example');
+
+		expect(path).toMatchObject({ found: true, hosts: ['a.example', 'd.example'], bottleneck: 1 });
+	});
+
+	it('strongest は最も細いところが最も太い経路を返す', () => {
+		const path = findFederationPath(FEDERATIONS, 'a.example', 'd.example', { mode: 'strongest' });
+
+		expect(path).toMatchObject({ found: true, hosts: ['a.example', 'c.example', 'd.example'], bottleneck: 5 });
+		expect(path.found && path.hops[1]).toEqual({
+			from: 'c.example',
+			to: 'd.example',
+			activity: 5,
+			usersCount: 5,
+			notesCount: 0,
+			observedBy: ['d.example']
+		});
+	});
+
+	it('ブロック・配信停止を通らなければたどれない場合は BLOCKED を返す', () => {
+		expect(findFederationPath(FEDERATIONS, 'a.example', 'e.example')).toEqual({
+			found: false,
+			reason: 'BLOCKED',
+			blockedHopCount: 2
+		});
+	});
+
+	it('収集したデータでつながっていなければ DISCONNECTED を返す', () => {
+		expect(findFederationPath(FEDERATIONS, 'a.example', 'g.example')).toEqual({
+			found: false,
+			reason: 'DISCONNECTED'
+		});
+	});
+
+	it('hosts で通れるサーバーを絞る', () => {
+		const path = findFederationPath(FEDERATIONS, 'a.example', 'd.example', {
+			mode: 'strongest',
+			hosts: ['a.example', 'b.example', 'd.example']
+		});
+
+		expect(path).toMatchObject({ found: true, hosts: ['a.example', 'b.example', 'd.example'], bottleneck: 2 });
+	});
+
+	it('同じサーバーやグラフにないサーバーは探さない', () => {
+		expect(findFederationPath(FEDERATIONS, 'a.example', 'a.example')).toEqual({ found: false, reason: 'SAME_HOST' });
+		expect(findFederationPath(FEDERATIONS, 'a.example', 'z.example')).toEqual({
+			found: false,
+			reason: 'UNKNOWN_HOST',
+			unknownHosts: ['z.example']
+		});
+	});
+});
@@ -0,0 +1,183 @@
+// 連合関係をたどった経路探索（サーバー A のユーザーがサーバー B の人とやり取りできるか）
+// ブロック・配信停止の関係がある組は通らない
+// 収集した連合情報の範囲内での探索のため、見つからなくても実際につながっていないとは限らない
+
+import type { FederationInfo } from './collector';
+
+// shortest: ホップ数が最少（同数なら最も細いところが太い方）
+// strongest: 最も細いところの活動量が最大（同じならホップ数が少ない方）
+export type PathMode = 'shortest' | 'strongest';
+
+export interface PathHop {
+	from: string;
+	to: string;
+	activity: number; // グラフのエッジの太さと同じ（フォロー数 + 投稿数 / 10）
+	usersCount: number;
+	notesCount: number;
+	observedBy: string[]; // この組の連合情報を公開していたサーバー（ブロックの有無を確認できた側）
+}
+
+export type PathNotFoundReason =
+	| 'SAME_HOST'
+	| 'UNKNOWN_HOST' // グラフにないサーバー
+	| 'BLOCKED' // ブロック・配信停止を通らなければたどれない
+	| 'DISCONNECTED'; // 収集したデータではつながっていない
+
+export type FederationPath =
+	| { found: true; hosts: string[]; hops: PathHop[]; bottleneck: number }
+	| { found: false; reason: PathNotFoundReason; unknownHosts?: string[]; blockedHopCount?: number };
+
+// ホスト間の関係（無向、両方向の記録をまとめたもの）
+interface PairLink {
+	activity: number;
+	usersCount: number;
+	notesCount: number;
+	blocked: boolean;
+	observedBy: Set<string>;
+}
+
+interface Label {
+	hops: number;
+	bottleneck: number;
+}
+
+function buildLinks(federations: FederationInfo[], hosts: Set<string> | null): Map<string, Map<string, PairLink>> {
+	const links = new Map<string, Map<string, PairLink>>();
+	const linkOf = (a: string, b: string): PairLink => {
+		let neighbors = links.get(a);
+		if (!neighbors) links.set(a, (neighbors = new Map()));
+		let link = neighbors.get(b);
+		if (!link) {
+			// 両端から同じオブジェクトを参照する
+			link = links.get(b)?.get(a) ?? {
+				activity: 0,
+				usersCount: 0,
+				notesCount: 0,
+				blocked: false,
+				observedBy: new Set()
+			};
+			neighbors.set(b, link);
+		}
+		return link;
+	};
+
+	for (const fed of federations) {
+		if (fed.sourceHost === fed.targetHost) continue;
+		if (hosts && (!hosts.has(fed.sourceHost) || !hosts.has(fed.targetHost))) continue;
+		const link = linkOf(fed.sourceHost, fed.targetHost);
+		linkOf(fed.targetHost, fed.sourceHost);
+		link.observedBy.add(fed.sourceHost);
+
+		if (fed.isBlocked || fed.isSuspended) {
+			link.blocked = true;
+			continue;
+		}
+		// 両方向の記録があれば、グラフと同じく多い方を使う
+		const activity = fed.usersCount + fed.notesCount / 10;
+		if (activity >= link.activity) {
+			link.activity = activity;
+			link.usersCount = fed.usersCount;
+			link.notesCount = fed.notesCount;
+		}
+	}
+	return links;
+}
+
+// a が b より良い経路か
+function isBetter(mode: PathMode, a: Label, b: Label): boolean {
+	if (mode === 'shortest') {
+		return a.hops !== b.hops ? a.hops < b.hops : a.bottleneck > b.bottleneck;
+	}
+	return a.bottleneck !== b.bottleneck ? a.bottleneck > b.bottleneck : a.hops < b.hops;
+}
+
+// ダイクストラ法（経路を伸ばすとホップ数は増え、最も細いところは細くなる一方なので成り立つ）
+// 同じ評価の候補はホスト名順に確定させ、結果が入力の順序に左右されないようにする
+function search(
+	links: Map<string, Map<string, PairLink>>,
+	from: string,
+	to: string,
+	mode: PathMode,
+	allowBlocked: boolean
+): string[] | null {
+	const labels = new Map<string, Label>([[from, { hops: 0, bottleneck: Infinity }]]);
+	const previous = new Map<string, string>();
+	const pending = new Set([from]);
+	const done = new Set<string>();
+
+	while (pending.size > 0) {
+		let current: string | null = null;
+		for (const host of pending) {
+			if (
+				current === null ||
+				isBetter(mode, labels.get(host)!, labels.get(current)!) ||
+				(!isBetter(mode, labels.get(current)!, labels.get(host)!) && host < current)
+			) {
+				current = host;
+			}
+		}
+		pending.delete(current!);
+		done.add(current!);
+		if (current === to) break;
+
+		const label = labels.get(current!)!;
+		for (const [neighbor, link] of links.get(current!) ?? []) {
+			if (done.has(neighbor) || (link.blocked && !allowBlocked)) continue;
+			const next = { hops: label.hops + 1, bottleneck: Math.min(label.bottleneck, link.activity) };
+			const existing = labels.get(neighbor);
+			if (!existing || isBetter(mode, next, existing)) {
+				labels.set(neighbor, next);
+				previous.set(neighbor, current!);
+				pending.add(neighbor);
+			}
+		}
+	}
+
+	if (!done.has(to)) return null;
+	const path = [to];
+	while (path[0] !== from) path.unshift(previous.get(path[0])!);
+	return path;
+}
+
+/**
+ * 2つのサーバー間の連合の経路を探す（ブロック・配信停止の関係は通らない）
+ * hosts を指定した場合は、そのサーバーのみを通る
+ */
+export function findFederationPath(
+	federations: FederationInfo[],
+	from: string,
+	to: string,
+	options: { mode?: PathMode; hosts?: Iterable<string> } = {}
+): FederationPath {
+	const mode = options.mode ?? 'shortest';
+	if (from === to) return { found: false, reason: 'SAME_HOST' };
+
+	const hosts = options.hosts ? new Set(options.hosts) : null;
+	const links = buildLinks(federations, hosts);
+
+	const unknownHosts = [from, to].filter((host) => !links.has(host));
+	if (unknownHosts.length > 0) return { found: false, reason: 'UNKNOWN_HOST', unknownHosts };
+
+	const path = search(links, from, to, mode, false);
+	if (!path) {
+		// ブロック・配信停止を通ればたどれるかどうかで理由を分ける
+		const blockedPath = search(links, from, to, 'shortest', true);
+		return blockedPath
+			? { found: false, reason: 'BLOCKED', blockedHopCount: blockedPath.length - 1 }
+			: { found: false, reason: 'DISCONNECTED' };
+	}
+
+	const hops = path.slice(1).map((host, i): PathHop => {
+		const link = links.get(path[i])!.get(host)!;
+		return {
+			from: path[i],
+			to: host,
+			activity: link.activity,
+			usersCount: link.usersCount,
+			notesCount: link.notesCount,
+			observedBy: Array.from(link.observedBy).sort()
+		};
+	});
+
+	return { found: true, hosts: path, hops, bottleneck: Math.min(...hops.map((hop) => hop.activity)) };
+}
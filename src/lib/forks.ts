@@ -0,0 +1,353 @@
+// 既知のフォークの一覧（ソフトウェアの識別と表示用）
+// リポジトリURL・NodeInfo のソフトウェア名・バージョンの接尾辞から判定し、
+// 表示名・色・派生元をそろえる
+
+import type { ServerInfo } from './collector';
+
+export interface ForkInfo {
+	id: string; // URLの短縮形としても使う
+	name: string; // 表示名
+	color: string; // HSL（blendColors で混色できる形式）
+	upstream: string | null; // 派生元の id
+	repositories: string[]; // リポジトリ（ホスト/パス、小文字）
+	softwareNames: string[]; // NodeInfo の software.name
+	versionPattern?: RegExp; // リポジトリURLを変えていないフォークを見分けるためのバージョンの特徴
+}
+
+// 色は系統が近くても見分けられるよう色相をずらして固定する
+export const FORK_REGISTRY: ForkInfo[] = [
+	// Misskey 系
+	{
+		id: 'misskey',
+		name: 'Misskey',
+		color: 'hsl(80, 100%, 35%)', // Misskeyグリーン
+		upstream: null,
+		repositories: ['github.com/misskey-dev/misskey'],
+		softwareNames: ['misskey']
+	},
+	{
+		id: 'misskeyio',
+		name: 'Misskey.io',
+		color: 'hsl(150, 70%, 40%)',
+		upstream: 'misskey',
+		repositories: ['github.com/misskeyio/misskey'],
+		softwareNames: [],
+		versionPattern: /-io\b/i
+	},
+	{
+		id: 'sharkey',
+		name: 'Sharkey',
+		color: 'hsl(320, 75%, 60%)',
+		upstream: 'misskey',
+		repositories: ['activitypub.software/transfem-org/sharkey', 'git.joinsharkey.org/sharkey/sharkey'],
+		softwareNames: ['sharkey'],
+		versionPattern: /sharkey/i
+	},
+	{
+		id: 'cherrypick',
+		name: 'CherryPick',
+		color: 'hsl(350, 80%, 55%)',
+		upstream: 'misskey',
+		repositories: ['github.com/kokonect-link/cherrypick'],
+		softwareNames: ['cherrypick'],
+		versionPattern: /cherrypick|-cp[-.]/i
+	},
+	{
+		id: 'yamisskey',
+		name: 'yamisskey',
+		color: 'hsl(270, 65%, 60%)',
+		upstream: 'misskey',
+		repositories: ['github.com/yamisskey-dev/yamisskey'],
+		softwareNames: ['yamisskey'],
+		versionPattern: /-yami/i
+	},
+	{
+		id: 'calckey',
+		name: 'Calckey',
+		color: 'hsl(45, 90%, 50%)',
+		upstream: 'misskey',
+		repositories: ['codeberg.org/calckey/calckey'],
+		softwareNames: ['calckey']
+	},
+	{
+		id: 'firefish',
+		name: 'Firefish',
+		color: 'hsl(10, 85%, 55%)',
+		upstream: 'calckey',
+		repositories: ['git.joinfirefish.org/firefish/firefish', 'firefish.dev/firefish/firefish'],
+		softwareNames: ['firefish']
+	},
+	{
+		id: 'iceshrimp',
+		name: 'Iceshrimp',
+		color: 'hsl(195, 80%, 50%)',
+		upstream: 'firefish',
+		repositories: ['iceshrimp.dev/iceshrimp/iceshrimp'],
+		softwareNames: ['iceshrimp']
+	},
+	{
+		id: 'catodon',
+		name: 'Catodon',
+		color: 'hsl(300, 55%, 55%)',
+		upstream: 'iceshrimp',
+		repositories: ['codeberg.org/catodon/catodon'],
+		softwareNames: ['catodon']
+	},
+	{
+		id: 'meisskey',
+		name: 'Meisskey',
+		color: 'hsl(60, 85%, 45%)',
+		upstream: 'misskey',
+		repositories: ['github.com/mei23/misskey'],
+		softwareNames: ['meisskey']
+	},
+	{
+		id: 'foundkey',
+		name: 'FoundKey',
+		color: 'hsl(175, 70%, 40%)',
+		upstream: 'misskey',
+		repositories: ['akkoma.dev/foundkeygang/foundkey'],
+		softwareNames: ['foundkey']
+	},
+
+	// Mastodon 系
+	{
+		id: 'mastodon',
+		name: 'Mastodon',
+		color: 'hsl(240, 80%, 65%)',
+		upstream: null,
+		repositories: ['github.com/mastodon/mastodon'],
+		softwareNames: ['mastodon']
+	},
+	{
+		id: 'fedibird',
+		name: 'Fedibird',
+		color: 'hsl(210, 75%, 50%)',
+		upstream: 'mastodon',
+		repositories: ['github.com/fedibird/mastodon'],
+		softwareNames: ['fedibird']
+	},
+	{
+		id: 'kmyblue',
+		name: 'kmyblue',
+		color: 'hsl(225, 60%, 75%)',
+		upstream: 'mastodon',
+		repositories: ['github.com/kmycode/mastodon'],
+		softwareNames: ['kmyblue'],
+		versionPattern: /kmyblue/i
+	},
+	{
+		id: 'hometown',
+		name: 'Hometown',
+		color: 'hsl(130, 45%, 40%)',
+		upstream: 'mastodon',
+		repositories: ['github.com/hometown-fork/hometown'],
+		softwareNames: ['hometown'],
+		versionPattern: /hometown/i
+	},
+
+	// Pleroma 系
+	{
+		id: 'pleroma',
+		name: 'Pleroma',
+		color: 'hsl(30, 100%, 50%)',
+		upstream: null,
+		repositories: ['git.pleroma.social/pleroma/pleroma'],
+		softwareNames: ['pleroma']
+	},
+	{
+		id: 'akkoma',
+		name: 'Akkoma',
+		color: 'hsl(285, 60%, 55%)',
+		upstream: 'pleroma',
+		repositories: ['akkoma.dev/akkomagang/akkoma'],
+		softwareNames: ['akkoma']
+	},
+
+	{
+		id: 'gotosocial',
+		name: 'GoToSocial',
+		color: 'hsl(35, 45%, 40%)',
+		upstream: null,
+		repositories: ['github.com/superseriousbusiness/gotosocial', 'codeberg.org/superseriousbusiness/gotosocial'],
+		softwareNames: ['gotosocial']
+	}
+];
+
+const FORKS_BY_ID = new Map(FORK_REGISTRY.map((fork) => [fork.id, fork]));
+
+// バニラMisskeyのバージョンパターン（例: 2024.11.0, 2025.1.0-beta.1）
+const VANILLA_VERSION_PATTERN = /^\d{4}\.\d{1,2}\.\d+(?:-(?:alpha|beta|rc)\.\d+)?$/;
+
+// バニラのリポジトリURLのままバージョン形式だけが異なるフォーク
+const UNNAMED_MISSKEY_FORK = 'misskey-fork';
+const UNNAMED_MISSKEY_FORK_NAME = 'Misskey（フォーク）';
+
+// 系統ごとの既定（ソフトウェアを特定できない場合）
+const FAMILY_ROOTS: Record<NonNullable<ServerInfo['softwareFamily']>, string> = {
+	misskey: 'misskey',
+	mastodon: 'mastodon',
+	pleroma: 'pleroma',
+	gotosocial: 'gotosocial'
+};
+
+// 識別に使うサーバー情報
+export type SoftwareHints = Partial<
+	Pick<ServerInfo, 'repositoryUrl' | 'softwareName' | 'softwareVersion' | 'softwareFamily'>
+>;
+
+// 識別結果
+export interface SoftwareIdentity {
+	id: string; // 既知のフォークは registry の id、それ以外はリポジトリ（ホスト/パス）
+	name: string;
+	color: string;
+	lineage: string[]; // 派生元をたどった表示名（根から順、自身を含む）
+	known: boolean; // registry に載っているか
+}
+
+/**
+ * リポジトリURLを比較用の形（ホスト/パス、小文字）にそろえる
+ */
+export function normalizeRepositoryUrl(repositoryUrl: string): string {
+	return repositoryUrl
+		.trim()
+		.toLowerCase()
+		.replace(/^(?:git\+)?https?:\/\//, '')
+		.replace(/^www\./, '')
+		.replace(/\.git$/, '')
+		.replace(/\/+$/, '');
+}
+
+function findForkByRepository(repositoryUrl: string): ForkInfo | null {
+	const normalized = normalizeRepositoryUrl(repositoryUrl);
+	return FORK_REGISTRY.find((fork) =>
+		fork.repositories.some((repo) => normalized === repo || normalized.startsWith(`${repo}/`))
+	) ?? null;
+}
+
+function getLineage(fork: ForkInfo): string[] {
+	const lineage: string[] = [];
+	let current: ForkInfo | undefined = fork;
+	while (current && !lineage.includes(current.name)) {
+		lineage.unshift(current.name);
+		current = current.upstream ? FORKS_BY_ID.get(current.upstream) : undefined;
+	}
+	return lineage;
+}
+
+// 派生元をたどった根（系統の元になったソフトウェア）
+function getRoot(fork: ForkInfo): ForkInfo {
+	const seen = new Set<string>();
+	let current = fork;
+	while (current.upstream && !seen.has(current.id)) {
+		seen.add(current.id);
+		const upstream = FORKS_BY_ID.get(current.upstream);
+		if (!upstream) break;
+		current = upstream;
+	}
+	return current;
+}
+
+/**
+ * 系統に属する既知のソフトウェアの NodeInfo の名前
+ * 連合情報のアダプター（sources.ts）の対応表に使い、registry と食い違わないようにする
+ */
+export function getFamilySoftwareNames(family: NonNullable<ServerInfo['softwareFamily']>): string[] {
+	return FORK_REGISTRY.filter((fork) => getRoot(fork).id === FAMILY_ROOTS[family]).flatMap((fork) => fork.softwareNames);
+}
+
+function toIdentity(fork: ForkInfo): SoftwareIdentity {
+	return { id: fork.id, name: fork.name, color: fork.color, lineage: getLineage(fork), known: true };
+}
+
+// 未知のフォークの色（registry の色と見分けられるよう彩度を落とす）
+function getFallbackColor(key: string): string {
+	let hash = 0;
+	for (let i = 0; i < key.length; i++) {
+		hash = ((hash << 5) - hash + key.charCodeAt(i)) | 0;
+	}
+	const hueSteps = [0, 30, 60, 120, 180, 210, 240, 270, 300, 330];
+	return `hsl(${hueSteps[Math.abs(hash) % hueSteps.length]}, 40%, 60%)`;
+}
+
+// リポジトリから表示名を抽出（例: "github.com/foo/misskey" → "foo/misskey"）
+function getRepositoryName(normalized: string): string {
+	const parts = normalized.split('/');
+	return parts.length >= 3 ? parts.slice(1, 3).join('/') : normalized;
+}
+
+/**
+ * サーバーのソフトウェアを識別する
+ * NodeInfo のソフトウェア名 → リポジトリURL → バージョンの接尾辞の順に判定し、
+ * 既知のフォークでなければリポジトリURLごとの未知のフォークとして扱う
+ */
+export function identifySoftware(hints: SoftwareHints): SoftwareIdentity {
+	const softwareName = hints.softwareName?.toLowerCase() ?? null;
+	const version = hints.softwareVersion ?? '';
+	const root = FORKS_BY_ID.get(FAMILY_ROOTS[hints.softwareFamily ?? 'misskey'])!;
+
+	// フォークの多くはソフトウェア名を変えないため、系統の根の名前は判定に使わない
+	if (softwareName && softwareName !== root.id) {
+		const byName = FORK_REGISTRY.find((fork) => fork.softwareNames.includes(softwareName));
+		if (byName) return toIdentity(byName);
+	}
+
+	const byRepository = hints.repositoryUrl ? findForkByRepository(hints.repositoryUrl) : null;
+	if (byRepository && byRepository.upstream !== null) {
+		return toIdentity(byRepository);
+	}
+
+	// リポジトリURLを変えていない（またはない）フォークをバージョンで見分ける
+	if (version) {
+		const byVersion = FORK_REGISTRY.find((fork) => fork.versionPattern?.test(version));
+		if (byVersion) return toIdentity(byVersion);
+	}
+
+	if (byRepository) {
+		// バニラのリポジトリだがバージョン形式が異なるものは、名前のないフォークとして扱う
+		if (byRepository.id === 'misskey' && version && !VANILLA_VERSION_PATTERN.test(version)) {
+			return {
+				id: UNNAMED_MISSKEY_FORK,
+				name: UNNAMED_MISSKEY_FORK_NAME,
+				color: getFallbackColor(UNNAMED_MISSKEY_FORK),
+				lineage: [byRepository.name, UNNAMED_MISSKEY_FORK_NAME],
+				known: false
+			};
+		}
+		return toIdentity(byRepository);
+	}
+
+	if (hints.repositoryUrl) {
+		const normalized = normalizeRepositoryUrl(hints.repositoryUrl);
+		const name = getRepositoryName(normalized);
+		return {
+			id: normalized,
+			name,
+			color: getFallbackColor(normalized),
+			lineage: [root.name, name],
+			known: false
+		};
+	}
+
+	// 手がかりがなければ系統の根として扱う
+	return toIdentity(root);
+}
+
+/**
+ * id からソフトウェアの表示名を得る（未知のフォークはリポジトリ名）
+ */
+export function getSoftwareName(id: string): string {
+	const fork = FORKS_BY_ID.get(id);
+	if (fork) return fork.name;
+	if (id === UNNAMED_MISSKEY_FORK) return UNNAMED_MISSKEY_FORK_NAME;
+	return getRepositoryName(id);
+}
+
+/**
+ * URLなどで指定されたソフトウェアを id にそろえる（リポジトリURLでの指定にも対応）
+ */
+export function toSoftwareId(value: string): string {
+	const lower = value.trim().toLowerCase();
+	if (FORKS_BY_ID.has(lower) || lower === UNNAMED_MISSKEY_FORK) return lower;
+	return identifySoftware({ repositoryUrl: value }).id;
+}
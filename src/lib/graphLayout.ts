@@ -0,0 +1,305 @@
+// 連合グラフの重みと配置の計算
+// 画面のない Cytoscape（headless）で配置を計算し、ノードの座標だけを返す
+// 重い計算のため通常は Web Worker（graphLayout.worker.ts）で実行する
+
+import cytoscape from 'cytoscape';
+import fcose from 'cytoscape-fcose';
+import { computeGraphModel, type GraphModel, type GraphModelInput } from './graphModel';
+import { hopDistances, seededRandom, type GraphLayout } from './layout';
+
+cytoscape.use(fcose);
+
+export interface Position {
+	x: number;
+	y: number;
+}
+
+export interface GraphLayoutRequest {
+	input: GraphModelInput;
+	layout: GraphLayout;
+	roots: string[]; // 同心円の中心（視点サーバー、または放射状の中心）
+	positions: Record<string, Position> | null; // 今の配置（あれば保って差分だけ動かす）
+}
+
+export interface GraphLayoutResult {
+	model: GraphModel;
+	positions: Record<string, Position>;
+}
+
+// model: 重み・界隈・指標の計算 / layout: 配置の計算（progress は 0〜1、分からなければ null）
+export interface GraphLayoutProgress {
+	phase: 'model' | 'layout';
+	progress: number | null;
+}
+
+// Worker とのやり取り
+export type GraphLayoutWorkerMessage =
+	| ({ type: 'progress' } & GraphLayoutProgress)
+	| { type: 'done'; result: GraphLayoutResult }
+	| { type: 'error'; message: string };
+
+const LAYOUT_SEED = 20240601;
+
+// 標準（cose）のレイアウト設定。固定（seeded）でも同じ設定を種付きの乱数で使う
+const COSE_LAYOUT_OPTIONS = {
+	name: 'cose',
+	// 数回の反復ごとに座標を反映し、その回数で進み具合を知らせる
+	animate: true,
+	refresh: 50,
+	animationThreshold: 0,
+	// 初期配置はこちらで決める（画面のない Cytoscape は大きさが 1px のため）
+	randomize: false,
+	fit: false,
+	padding: 50,
+
+	// === クラスタリング極限調整 ===
+
+	// ノード反発力（最大化してクラスタ分離を強化）
+	nodeRepulsion: (node: { data: (key: string) => number }) => {
+		const size = node.data('size') || 30;
+		// 基底値を大幅増加、サイズ依存も強化
+		return 80000 + (size / 70) * 120000;
+	},
+
+	// エッジの理想的な長さ（より極端な非線形スケール）
+	idealEdgeLength: (edge: { data: (key: string) => number }) => {
+		const weight = edge.data('weight') || 1;
+		const normalized = Math.min(1, (weight - 1) / 29);
+		// より急峻な曲線（0.3乗）で強い関係を極端に近くする
+		const curve = Math.pow(normalized, 0.3);
+		// length: 300-15（レンジを拡大、強い関係は極近接）
+		return 300 - curve * 285;
+	},
+
+	// 重力（弱めてクラスタの自然な広がりを許容）
+	gravity: 0.12,
+
+	// === 焼きなまし法パラメータ（収束品質向上） ===
+
+	// 初期温度（高いほど初期探索が広範囲）
+	initialTemp: 2000,
+	// 冷却係数（1に近いほどゆっくり冷却→より良い解）
+	coolingFactor: 0.995,
+	// 最小温度（低いほど長く計算→精度向上）
+	minTemp: 0.1,
+
+	// イテレーション数（大幅増加）
+	numIter: 2500,
+
+	// ノード重複回避（強化）
+	nodeOverlap: 30,
+	// 分離コンポーネント間の距離（拡大）
+	componentSpacing: 120,
+	// ネスト係数（クラスタ内密度）
+	nestingFactor: 1.2
+};
+
+// 今の配置を保つときは温度を下げ、少しだけ動かす
+const COSE_REFINE_OPTIONS = {
+	initialTemp: 10,
+	coolingFactor: 0.9,
+	minTemp: 1
+};
+
+const FCOSE_LAYOUT_OPTIONS = {
+	name: 'fcose',
+	quality: 'default',
+	animate: false,
+	fit: false,
+	padding: 50,
+	nodeRepulsion: (node: { data: (key: string) => number }) => 4500 + ((node.data('size') || 30) / 70) * 12000,
+	idealEdgeLength: (edge: { data: (key: string) => number }) => {
+		const normalized = Math.min(1, ((edge.data('weight') || 1) - 1) / 29);
+		return 200 - Math.pow(normalized, 0.3) * 170;
+	},
+	nodeSeparation: 75,
+	gravity: 0.25,
+	numIter: 2500
+};
+
+// 最初の配置を散らす範囲（一辺の長さ）
+// 画面の大きさによらずノード数だけで決め、表示は描画側の fit で画面に合わせる（固定の配置を共有URLで再現するため）
+function layoutExtent(nodeCount: number): number {
+	return Math.max(400, Math.sqrt(nodeCount) * 120);
+}
+
+// cose の反復回数（温度が最小温度を下回るか、上限に達するまで）
+function coseIterations(options: { initialTemp: number; coolingFactor: number; minTemp: number; numIter: number }): number {
+	const cooling = Math.ceil(Math.log(options.minTemp / options.initialTemp) / Math.log(options.coolingFactor));
+	return Math.max(1, Math.min(options.numIter, cooling));
+}
+
+// ホスト名から決まる向き（同じデータなら同じ配置）
+function hostAngle(host: string): number {
+	let hash = 0;
+	for (let i = 0; i < host.length; i++) hash = (hash * 31 + host.charCodeAt(i)) | 0;
+	return ((hash >>> 0) % 360) * (Math.PI / 180);
+}
+
+/**
+ * 初期配置を決める
+ * 今の配置があるノードはそのまま、新しいノードは既にあるつながり先の重心のまわり、
+ * どちらもなければノード数で決まる範囲に散らす
+ */
+function initialPositions(
+	model: GraphModel,
+	request: GraphLayoutRequest,
+	random: () => number
+): Record<string, Position> {
+	const positions: Record<string, Position> = {};
+	const previous = request.positions ?? {};
+	for (const host of model.hosts) {
+		if (previous[host]) positions[host] = previous[host];
+	}
+
+	const known = Object.values(positions);
+	if (known.length === 0) {
+		const extent = layoutExtent(model.hosts.length);
+		for (const host of model.hosts) {
+			positions[host] = { x: random() * extent, y: random() * extent };
+		}
+		return positions;
+	}
+
+	const center = {
+		x: known.reduce((sum, p) => sum + p.x, 0) / known.length,
+		y: known.reduce((sum, p) => sum + p.y, 0) / known.length
+	};
+	const anchors = new Map<string, Position[]>();
+	const links = [
+		...model.federationEdges.map((e) => [e.source, e.target]),
+		...model.blockRelations.map((r) => [r.hostA, r.hostB])
+	];
+	for (const [a, b] of links) {
+		for (const [host, other] of [[a, b], [b, a]]) {
+			if (positions[host] || !positions[other]) continue;
+			anchors.set(host, [...(anchors.get(host) ?? []), positions[other]]);
+		}
+	}
+	for (const host of model.hosts) {
+		if (positions[host]) continue;
+		const points = anchors.get(host) ?? [center];
+		const angle = hostAngle(host);
+		const radius = 60 + (model.sizes[host] ?? 10);
+		positions[host] = {
+			x: points.reduce((sum, p) => sum + p.x, 0) / points.length + Math.cos(angle) * radius,
+			y: points.reduce((sum, p) => sum + p.y, 0) / points.length + Math.sin(angle) * radius
+		};
+	}
+	return positions;
+}
+
+// レイアウトを実行し、終わるまで待つ
+function runLayout(layout: cytoscape.Layouts): Promise<void> {
+	return new Promise((resolve) => {
+		layout.one('layoutstop', () => resolve());
+		layout.run();
+	});
+}
+
+/**
+ * 重み・界隈・指標を計算し、配置を求める
+ */
+export async function computeGraphLayout(
+	request: GraphLayoutRequest,
+	onProgress?: (progress: GraphLayoutProgress) => void
+): Promise<GraphLayoutResult> {
+	onProgress?.({ phase: 'model', progress: null });
+	const model = computeGraphModel(request.input);
+
+	const seeded = request.layout === 'seeded';
+	// fcose と固定の配置は途中経過を受け取れないため進み具合は分からない
+	onProgress?.({ phase: 'layout', progress: request.layout === 'fcose' || seeded ? null : 0 });
+	const random = seeded ? seededRandom(LAYOUT_SEED) : Math.random;
+	// 固定の配置は今の配置によらず、データだけから毎回同じように計算する
+	const previous = seeded ? null : request.positions;
+	const start = initialPositions(model, { ...request, positions: previous }, random);
+	const refine = previous !== null && model.hosts.some((host) => previous[host]);
+
+	const cy = cytoscape({
+		headless: true,
+		styleEnabled: false,
+		elements: [
+			...model.hosts.map((host) => ({
+				group: 'nodes' as const,
+				data: { id: host, size: model.sizes[host] ?? 10 },
+				position: { ...start[host] }
+			})),
+			...model.federationEdges.map((e) => ({
+				group: 'edges' as const,
+				data: { id: `${e.source}-${e.target}`, source: e.source, target: e.target, weight: e.weight }
+			})),
+			...model.blockRelations.map((r) => ({
+				group: 'edges' as const,
+				data: { id: `blk_${r.hostA}|${r.hostB}`, source: r.hostA, target: r.hostB, weight: 3 }
+			}))
+		],
+		layout: { name: 'preset' }
+	});
+
+	try {
+		if (request.layout === 'concentric' || request.layout === 'radial') {
+			// 連合・ブロックのエッジでたどったホップ数ごとの同心円（疎通エッジは含めない）
+			const edges = cy.edges().map((edge) => ({ source: edge.source().id(), target: edge.target().id() }));
+			const distances = hopDistances(request.roots, edges);
+			const outer = Math.max(0, ...distances.values()) + 1; // たどり着けないサーバーは一番外側
+			await runLayout(
+				cy.layout({
+					name: 'concentric',
+					animate: false,
+					fit: false,
+					avoidOverlap: true,
+					minNodeSpacing: 8,
+					boundingBox: { x1: 0, y1: 0, w: layoutExtent(model.hosts.length), h: layoutExtent(model.hosts.length) },
+					concentric: (node: cytoscape.NodeSingular) => outer - (distances.get(node.id()) ?? outer),
+					levelWidth: () => 1
+				})
+			);
+		} else if (request.layout === 'fcose') {
+			await runLayout(cy.layout({ ...FCOSE_LAYOUT_OPTIONS, randomize: !refine } as cytoscape.LayoutOptions));
+		} else if (seeded) {
+			// 固定の配置では、計算中の乱数も種付きのものに置き換える（レイアウトには乱数を外から渡せないため）
+			// 置き換えが他の処理に及ばないよう、アニメーションなしで同期的に計算してすぐに戻す
+			const original = Math.random;
+			Math.random = random;
+			try {
+				cy.layout({ ...COSE_LAYOUT_OPTIONS, animate: false } as cytoscape.LayoutOptions).run();
+			} finally {
+				Math.random = original;
+			}
+		} else {
+			const options = { ...COSE_LAYOUT_OPTIONS, ...(refine ? COSE_REFINE_OPTIONS : {}) };
+			const total = coseIterations(options);
+			// 座標の反映（1回の反復のまとまりごと）を数えて進み具合にする
+			let frames = 0;
+			let inFrame = false;
+			cy.on('position', () => {
+				if (inFrame) return;
+				inFrame = true;
+				frames++;
+				queueMicrotask(() => (inFrame = false));
+				onProgress?.({ phase: 'layout', progress: Math.min(1, (frames * options.refresh) / total) });
+			});
+			await runLayout(cy.layout(options as cytoscape.LayoutOptions));
+		}
+
+		// 配置を保つときは、レイアウトによる全体の平行移動を打ち消して元の位置に合わせる
+		const shift = { x: 0, y: 0 };
+		const kept = refine ? model.hosts.filter((host) => previous?.[host]) : [];
+		for (const host of kept) {
+			const { x, y } = cy.getElementById(host).position();
+			shift.x += (x - start[host].x) / kept.length;
+			shift.y += (y - start[host].y) / kept.length;
+		}
+
+		const positions: Record<string, Position> = {};
+		cy.nodes().forEach((node) => {
+			const { x, y } = node.position();
+			positions[node.id()] = { x: x - shift.x, y: y - shift.y };
+		});
+		onProgress?.({ phase: 'layout', progress: 1 });
+		return { model, positions };
+	} finally {
+		cy.destroy();
+	}
+}
@@ -0,0 +1,16 @@
+// 連合グラフの配置を計算する Web Worker（メインスレッドを止めないため）
+
+import { computeGraphLayout, type GraphLayoutRequest, type GraphLayoutWorkerMessage } from './graphLayout';
+
+function post(message: GraphLayoutWorkerMessage) {
+	self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<GraphLayoutRequest>) => {
+	try {
+		const result = await computeGraphLayout(event.data, (progress) => post({ type: 'progress', ...progress }));
+		post({ type: 'done', result });
+	} catch (e) {
+		post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+	}
+};
@@ -0,0 +1,114 @@
+// 連合グラフの配置計算を Web Worker で実行する
+// 新しい計算を始めたら実行中のものは打ち切る。Worker を使えない環境ではメインスレッドで計算する
+
+import type {
+	GraphLayoutProgress,
+	GraphLayoutRequest,
+	GraphLayoutResult,
+	GraphLayoutWorkerMessage
+} from './graphLayout';
+
+export interface GraphLayoutRunner {
+	// 新しい計算に打ち切られた場合は null
+	run(
+		request: GraphLayoutRequest,
+		onProgress?: (progress: GraphLayoutProgress) => void
+	): Promise<GraphLayoutResult | null>;
+	dispose(): void;
+}
+
+// Worker を使えないときの代わり（同じ計算をメインスレッドで行う）
+async function runOnMainThread(
+	request: GraphLayoutRequest,
+	onProgress?: (progress: GraphLayoutProgress) => void
+): Promise<GraphLayoutResult> {
+	const { computeGraphLayout } = await import('./graphLayout');
+	return computeGraphLayout(request, onProgress);
+}
+
+export function createGraphLayoutRunner(): GraphLayoutRunner {
+	let worker: Worker | null = null;
+	let workerUnavailable = typeof Worker === 'undefined';
+	// 実行中の計算（打ち切るときに null で終える）
+	let pending: { resolve: (result: null) => void } | null = null;
+	// メインスレッドで計算している場合は世代で古い結果を捨てる
+	let generation = 0;
+
+	function cancelPending() {
+		if (!pending) return;
+		pending.resolve(null);
+		pending = null;
+		// 計算中の Worker は止められないため作り直す
+		worker?.terminate();
+		worker = null;
+	}
+
+	function getWorker(): Worker | null {
+		if (worker || workerUnavailable) return worker;
+		try {
+			worker = new Worker(new URL('./graphLayout.worker.ts', import.meta.url), { type: 'module' });
+		} catch (e) {
+			console.warn('Graph layout worker is unavailable, falling back to the main thread:', e);
+			workerUnavailable = true;
+		}
+		return worker;
+	}
+
+	async function runFallback(
+		request: GraphLayoutRequest,
+		onProgress: ((progress: GraphLayoutProgress) => void) | undefined,
+		current: number
+	): Promise<GraphLayoutResult | null> {
+		const result = await runOnMainThread(request, (progress) => {
+			if (current === generation) onProgress?.(progress);
+		});
+		return current === generation ? result : null;
+	}
+
+	return {
+		run(request, onProgress) {
+			cancelPending();
+			const current = ++generation;
+			const activeWorker = getWorker();
+			if (!activeWorker) return runFallback(request, onProgress, current);
+
+			return new Promise<GraphLayoutResult | null>((resolve, reject) => {
+				const settle = () => {
+					pending = null;
+					activeWorker.onmessage = null;
+					activeWorker.onerror = null;
+				};
+				pending = { resolve };
+				activeWorker.onmessage = (event: MessageEvent<GraphLayoutWorkerMessage>) => {
+					const message = event.data;
+					if (message.type === 'progress') {
+						onProgress?.({ phase: message.phase, progress: message.progress });
+					} else if (message.type === 'done') {
+						settle();
+						resolve(message.result);
+					} else {
+						settle();
+						reject(new Error(message.message));
+					}
+				};
+				// Worker を読み込めなかった場合（module Worker 非対応など）は以後メインスレッドで計算する
+				activeWorker.onerror = (event) => {
+					event.preventDefault();
+					console.warn('Graph layout worker failed, falling back to the main thread:', event.message);
+					settle();
+					activeWorker.terminate();
+					worker = null;
+					workerUnavailable = true;
+					runFallback(request, onProgress, current).then(resolve, reject);
+				};
+				activeWorker.postMessage(request);
+			});
+		},
+		dispose() {
+			cancelPending();
+			generation++;
+			worker?.terminate();
+			worker = null;
+		}
+	};
+}
@@ -0,0 +1,178 @@
+// 連合グラフの数値的な部分（エッジの重み・表示するサーバー・ノードの大きさ・界隈・指標）
+// 描画に依存しない計算のみで、Web Worker でも実行できるようにしている
+
+import type { FederationInfo } from './collector';
+import { detectCommunities, type CommunityResult } from './community';
+import { computeCentrality, type CentralityMetrics } from './centrality';
+
+// 正常な連合のエッジ（ホスト名順の組ごとに1本）
+export interface FederationEdge {
+	source: string;
+	target: string;
+	weight: number; // 1〜30（線の太さ）
+	rawActivity: number; // フォロー数 + 投稿数 / 10
+}
+
+// ブロック・配信停止の関係（ホスト名順の組ごとに1本）
+export interface BlockRelation {
+	hostA: string;
+	hostB: string;
+	forward: boolean; // A→B方向
+	backward: boolean; // B→A方向
+	isBlocked: boolean;
+	isSuspended: boolean;
+}
+
+export interface GraphModelInput {
+	servers: Array<{ host: string; usersCount: number | null }>;
+	federations: FederationInfo[];
+	viewpointServers: string[];
+}
+
+export interface GraphModel {
+	federationEdges: FederationEdge[];
+	blockRelations: BlockRelation[];
+	hosts: string[]; // ノードとして表示するサーバー
+	sizes: Record<string, number>; // ユーザー数によるノードの大きさ（既知のサーバーのみ）
+	communities: CommunityResult;
+	centrality: Map<string, CentralityMetrics>;
+}
+
+/**
+ * サーバー・連合データからグラフの数値的な部分を計算する
+ */
+export function computeGraphModel({ servers, federations, viewpointServers }: GraphModelInput): GraphModel {
+	// 既知のサーバーホスト
+	const serverHosts = new Set(servers.map((s) => s.host));
+
+	// 視点サーバーのセット（MisskeyHubにないサーバーでも表示対象に含める）
+	const viewpointHosts = new Set<string>();
+	for (const fed of federations) {
+		viewpointHosts.add(fed.sourceHost);
+	}
+	// エッジの両端がいずれかの条件を満たす場合のみ表示:
+	// 1. MisskeyHubのサーバーリストに含まれている
+	// 2. 視点サーバーである（MisskeyHubに載っていなくても表示）
+	const isAllowed = (host: string) => serverHosts.has(host) || viewpointHosts.has(host);
+
+	// 正常な連合とブロック関係を分離
+	const normalFederations = federations.filter((f) => !f.isBlocked && !f.isSuspended);
+	const blockedFederations = federations.filter((f) => f.isBlocked || f.isSuspended);
+
+	// まず全エッジの活動量を収集して最大値・最小値を取得（正常な連合のみ）
+	const rawActivities: { source: string; target: string; activity: number }[] = [];
+	for (const fed of normalFederations) {
+		if (!isAllowed(fed.sourceHost) || !isAllowed(fed.targetHost)) continue;
+		const [source, target] =
+			fed.sourceHost < fed.targetHost ? [fed.sourceHost, fed.targetHost] : [fed.targetHost, fed.sourceHost];
+		// usersCount: リモートフォローユーザー数、notesCount: 取得投稿数
+		const activity = fed.usersCount + fed.notesCount / 10;
+		rawActivities.push({ source, target, activity });
+	}
+
+	// 活動量の最大値・最小値を計算（正規化用）
+	let maxActivity = 1;
+	let minActivity = 0;
+	for (const { activity } of rawActivities) {
+		if (activity > maxActivity) maxActivity = activity;
+		if (activity < minActivity) minActivity = activity;
+	}
+	const activityRange = maxActivity - minActivity || 1;
+
+	// 重複エッジを除去し、正規化した重みを計算
+	const edgeMap = new Map<string, FederationEdge>();
+	for (const item of rawActivities) {
+		const key = `${item.source}-${item.target}`;
+		const existing = edgeMap.get(key);
+
+		// 0-1に正規化してから1-30の範囲にスケール
+		// 平方根を使って中間値をより目立たせる
+		const normalized = Math.sqrt((item.activity - minActivity) / activityRange);
+		const weight = 1 + normalized * 29; // 1-30
+
+		if (existing) {
+			if (item.activity > existing.rawActivity) {
+				existing.weight = weight;
+				existing.rawActivity = item.activity;
+			}
+		} else {
+			edgeMap.set(key, { source: item.source, target: item.target, weight, rawActivity: item.activity });
+		}
+	}
+
+	// ブロック関係をホストの組ごとにまとめる（相互ブロックを検出するため）
+	const blockRelationMap = new Map<string, BlockRelation>();
+	for (const fed of blockedFederations) {
+		if (!isAllowed(fed.sourceHost) || !isAllowed(fed.targetHost)) continue;
+
+		// キーを正規化（アルファベット順でソート）
+		const [hostA, hostB] =
+			fed.sourceHost < fed.targetHost ? [fed.sourceHost, fed.targetHost] : [fed.targetHost, fed.sourceHost];
+		const key = `${hostA}|${hostB}`;
+		const existing = blockRelationMap.get(key) ?? {
+			hostA,
+			hostB,
+			forward: false,
+			backward: false,
+			isBlocked: false,
+			isSuspended: false
+		};
+
+		// A→B方向かB→A方向かを記録
+		if (fed.sourceHost < fed.targetHost) {
+			existing.forward = true;
+		} else {
+			existing.backward = true;
+		}
+		existing.isBlocked = existing.isBlocked || fed.isBlocked;
+		existing.isSuspended = existing.isSuspended || fed.isSuspended;
+		blockRelationMap.set(key, existing);
+	}
+
+	// 連合関係があるサーバーのみをノードとして表示
+	const connectedHosts = new Set<string>();
+	for (const edge of edgeMap.values()) {
+		connectedHosts.add(edge.source);
+		connectedHosts.add(edge.target);
+	}
+	// ブロック関係のホストも追加
+	for (const fed of blockedFederations) {
+		if (isAllowed(fed.sourceHost)) connectedHosts.add(fed.sourceHost);
+		if (isAllowed(fed.targetHost)) connectedHosts.add(fed.targetHost);
+	}
+	// 視点サーバーは必ず表示（連合情報を公開していなくても他サーバーとの関係で表示）
+	for (const host of viewpointServers) {
+		if (serverHosts.has(host)) {
+			connectedHosts.add(host);
+		}
+	}
+
+	// ノードサイズの正規化用に全サーバーのユーザー数を収集
+	const userCounts = servers.filter((s) => connectedHosts.has(s.host)).map((s) => s.usersCount ?? 1);
+	const maxUsers = Math.max(...userCounts, 1);
+	const minUsers = Math.min(...userCounts, 1);
+	// 対数スケールで正規化（ユーザー数の差が極端なため）
+	const logMaxUsers = Math.log10(maxUsers + 1);
+	const logMinUsers = Math.log10(minUsers + 1);
+	const logUserRange = logMaxUsers - logMinUsers || 1;
+
+	const sizes: Record<string, number> = {};
+	for (const server of servers) {
+		if (!connectedHosts.has(server.host)) continue;
+		const normalized = (Math.log10((server.usersCount ?? 1) + 1) - logMinUsers) / logUserRange;
+		// 12-70pxの範囲にマッピング（コンパクトに）
+		sizes[server.host] = 12 + normalized * 58;
+	}
+
+	const federationEdges = Array.from(edgeMap.values());
+	return {
+		federationEdges,
+		blockRelations: Array.from(blockRelationMap.values()),
+		hosts: Array.from(connectedHosts),
+		sizes,
+		// 連合の重みからコミュニティ（界隈）を検出（ブロック関係は含めない）
+		communities: detectCommunities(connectedHosts, federationEdges),
+		// 同じ重みでサーバーごとの指標を計算（ノードの大きさの切り替えとポップアップに使う）
+		centrality: computeCentrality(connectedHosts, federationEdges)
+	};
+}
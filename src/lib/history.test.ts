@@ -0,0 +1,116 @@
+// 2つのスナップショットの差分（連合・ブロック・配信停止・サーバーの増減・登録状態）を確かめる
+
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots, getEdgeDiffStates } from './history';
+import type { FederationInfo, ServerInfo } from './collector';
+import type { FederationSnapshot } from './snapshot';
+
+function server(host: string, registration: Partial<ServerInfo> = {}): ServerInfo {
+	return {
+		host,
+		registrationOpen: true,
+		approvalRequired: false,
+		inviteOnly: false,
+		...registration
+	} as ServerInfo;
+}
+
+function fed(sourceHost: string, targetHost: string, flags: Partial<FederationInfo> = {}): FederationInfo {
+	return { sourceHost, targetHost, usersCount: 0, notesCount: 0, isBlocked: false, isSuspended: false, ...flags };
+}
+
+function snapshot(fetchedAt: string, servers: ServerInfo[], federations: FederationInfo[]): FederationSnapshot {
+	return { fetchedAt, servers, federations, topByDru15: [], topByNpd15: [], topByUsers: [] };
+}
+
+describe('diffSnapshots', () => {
+	const before = snapshot(
+		'2024-06-01T00:00:00.000Z',
+		[server('a.example'), server('b.example'), server('c.example'), server('gone.example')],
+		[
+			fed('a.example', 'b.example'),
+			fed('a.example', 'c.example'),
+			fed('b.example', 'c.example', { isBlocked: true }),
+			fed('b.example', 'gone.example', { isSuspended: true }),
+			// after では視点になっていないサーバーの関係
+			fed('c.example', 'a.example')
+		]
+	);
+	const after = snapshot(
+		'2024-06-02T00:00:00.000Z',
+		[
+			server('a.example'),
+			server('b.example', { registrationOpen: false, inviteOnly: true }),
+			server('c.example'),
+			server('new.example')
+		],
+		[
+			fed('a.example', 'b.example'),
+			fed('a.example', 'new.example'),
+			fed('b.example', 'c.example'),
+			fed('b.example', 'a.example', { isBlocked: true }),
+			fed('b.example', 'gone.example', { isSuspended: true })
+		]
+	);
+
+	it('両方で視点になっているサーバーの関係の増減を向き付きで返す', () => {
+		const diff = diffSnapshots(before, after);
+
+		expect(diff.fromDate).toBe('2024-06-01T00:00:00.000Z');
+		expect(diff.toDate).toBe('2024-06-02T00:00:00.000Z');
+		expect(diff.addedEdges).toEqual([
+			{ sourceHost: 'a.example', targetHost: 'new.example' },
+			{ sourceHost: 'b.example', targetHost: 'c.example' }
+		]);
+		expect(diff.removedEdges).toEqual([{ sourceHost: 'a.example', targetHost: 'c.example' }]);
+		expect(diff.addedBlocks).toEqual([{ sourceHost: 'b.example', targetHost: 'a.example' }]);
+		expect(diff.removedBlocks).toEqual([{ sourceHost: 'b.example', targetHost: 'c.example' }]);
+		expect(diff.addedSuspensions).toEqual([]);
+		expect(diff.removedSuspensions).toEqual([]);
+	});
+
+	it('片方でしか視点になっていないサーバーの関係は変化として扱わない', () => {
+		const diff = diffSnapshots(before, after);
+		const all = [...diff.addedEdges, ...diff.removedEdges, ...diff.addedBlocks, ...diff.removedBlocks];
+
+		expect(all.some((change) => change.sourceHost === 'c.example')).toBe(false);
+	});
+
+	it('サーバーの増減と登録状態の変化を返す', () => {
+		const diff = diffSnapshots(before, after);
+
+		expect(diff.newServers).toEqual(['new.example']);
+		expect(diff.deadServers).toEqual(['gone.example']);
+		expect(diff.registrationChanges).toEqual([{ host: 'b.example', before: 'open', after: 'invite' }]);
+	});
+
+	it('同じスナップショットどうしでは変化がない', () => {
+		const diff = diffSnapshots(after, after);
+
+		expect(diff.addedEdges).toEqual([]);
+		expect(diff.removedEdges).toEqual([]);
+		expect(diff.newServers).toEqual([]);
+		expect(diff.registrationChanges).toEqual([]);
+	});
+});
+
+describe('getEdgeDiffStates', () => {
+	it('逆方向が残っていれば向きなしのエッジは変化しない', () => {
+		const before = snapshot('2024-06-01T00:00:00.000Z', [], [
+			fed('a.example', 'b.example'),
+			fed('b.example', 'a.example'),
+			fed('a.example', 'c.example')
+		]);
+		const after = snapshot('2024-06-02T00:00:00.000Z', [], [
+			fed('b.example', 'a.example'),
+			fed('a.example', 'd.example'),
+			// ブロックは連合のエッジとして数えない
+			fed('b.example', 'c.example', { isBlocked: true })
+		]);
+
+		expect(Object.fromEntries(getEdgeDiffStates(before, after))).toEqual({
+			'a.example-d.example': 'added',
+			'a.example-c.example': 'removed'
+		});
+	});
+});
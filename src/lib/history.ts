@@ -0,0 +1,162 @@
+import { getRegistrationStatus, type ServerInfo, type FederationInfo } from './collector';
+import type { FederationSnapshot } from './snapshot';
+
+// 連合関係の変化（sourceHost→targetHost の向き付き）
+export interface RelationChange {
+	sourceHost: string;
+	targetHost: string;
+}
+
+// 登録状態の変化
+export interface RegistrationChange {
+	host: string;
+	before: ReturnType<typeof getRegistrationStatus>;
+	after: ReturnType<typeof getRegistrationStatus>;
+}
+
+// 2つのスナップショット間の差分
+export interface SnapshotDiff {
+	fromDate: string;
+	toDate: string;
+	addedEdges: RelationChange[];    // 新たに連合した
+	removedEdges: RelationChange[];  // 連合一覧から消えた
+	addedBlocks: RelationChange[];   // 新たにブロックした
+	removedBlocks: RelationChange[]; // ブロックを解除した
+	addedSuspensions: RelationChange[];
+	removedSuspensions: RelationChange[];
+	newServers: string[];  // 新たに稼働を確認したサーバー
+	deadServers: string[]; // 稼働を確認できなくなったサーバー
+	registrationChanges: RegistrationChange[];
+}
+
+/**
+ * 連合関係の向き付きキー
+ */
+export function relationKey(sourceHost: string, targetHost: string): string {
+	return `${sourceHost}->${targetHost}`;
+}
+
+/**
+ * グラフのエッジIDと同じ向きなしキー（アルファベット順）
+ */
+export function edgeKey(hostA: string, hostB: string): string {
+	return hostA < hostB ? `${hostA}-${hostB}` : `${hostB}-${hostA}`;
+}
+
+// 条件に合う関係を向き付きキーで索引化
+function indexRelations(
+	federations: FederationInfo[],
+	predicate: (fed: FederationInfo) => boolean
+): Map<string, RelationChange> {
+	const map = new Map<string, RelationChange>();
+	for (const fed of federations) {
+		if (predicate(fed)) {
+			map.set(relationKey(fed.sourceHost, fed.targetHost), {
+				sourceHost: fed.sourceHost,
+				targetHost: fed.targetHost
+			});
+		}
+	}
+	return map;
+}
+
+// before にあって after にないもの、after にあって before にないもの
+function diffMaps<T>(before: Map<string, T>, after: Map<string, T>): { added: T[]; removed: T[] } {
+	const added: T[] = [];
+	const removed: T[] = [];
+	for (const [key, value] of after) {
+		if (!before.has(key)) added.push(value);
+	}
+	for (const [key, value] of before) {
+		if (!after.has(key)) removed.push(value);
+	}
+	return { added, removed };
+}
+
+const isNormal = (fed: FederationInfo) => !fed.isBlocked && !fed.isSuspended;
+const isBlocked = (fed: FederationInfo) => fed.isBlocked;
+const isSuspended = (fed: FederationInfo) => fed.isSuspended;
+
+/**
+ * 2つのスナップショットを比較する
+ * 両方で視点になっているサーバー（sourceHost）の関係のみを比較対象とし、
+ * 片方でしか取得できていない視点の関係は「変化」として扱わない
+ */
+export function diffSnapshots(before: FederationSnapshot, after: FederationSnapshot): SnapshotDiff {
+	const beforeSources = new Set(before.federations.map((f) => f.sourceHost));
+	const afterSources = new Set(after.federations.map((f) => f.sourceHost));
+	const comparable = (fed: FederationInfo) =>
+		beforeSources.has(fed.sourceHost) && afterSources.has(fed.sourceHost);
+
+	const beforeFeds = before.federations.filter(comparable);
+	const afterFeds = after.federations.filter(comparable);
+
+	const edges = diffMaps(indexRelations(beforeFeds, isNormal), indexRelations(afterFeds, isNormal));
+	const blocks = diffMaps(indexRelations(beforeFeds, isBlocked), indexRelations(afterFeds, isBlocked));
+	const suspensions = diffMaps(
+		indexRelations(beforeFeds, isSuspended),
+		indexRelations(afterFeds, isSuspended)
+	);
+
+	const beforeServers = new Map(before.servers.map((s) => [s.host, s]));
+	const afterServers = new Map(after.servers.map((s) => [s.host, s]));
+	const servers = diffMaps(beforeServers, afterServers);
+
+	const registrationChanges: RegistrationChange[] = [];
+	for (const [host, afterServer] of afterServers) {
+		const beforeServer = beforeServers.get(host);
+		if (!beforeServer) continue;
+		const beforeStatus = getRegistrationStatus(beforeServer);
+		const afterStatus = getRegistrationStatus(afterServer);
+		if (beforeStatus !== afterStatus) {
+			registrationChanges.push({ host, before: beforeStatus, after: afterStatus });
+		}
+	}
+
+	return {
+		fromDate: before.fetchedAt,
+		toDate: after.fetchedAt,
+		addedEdges: edges.added,
+		removedEdges: edges.removed,
+		addedBlocks: blocks.added,
+		removedBlocks: blocks.removed,
+		addedSuspensions: suspensions.added,
+		removedSuspensions: suspensions.removed,
+		newServers: servers.added.map((s: ServerInfo) => s.host),
+		deadServers: servers.removed.map((s: ServerInfo) => s.host),
+		registrationChanges
+	};
+}
+
+/**
+ * グラフのエッジ（向きなし）ごとの変化を得る
+ * 一方向だけ消えても逆方向が残っていればエッジ自体は残るため、向きなしで比較する
+ */
+export function getEdgeDiffStates(
+	before: FederationSnapshot,
+	after: FederationSnapshot
+): Map<string, 'added' | 'removed'> {
+	const beforeSources = new Set(before.federations.map((f) => f.sourceHost));
+	const afterSources = new Set(after.federations.map((f) => f.sourceHost));
+
+	const collect = (federations: FederationInfo[]) => {
+		const keys = new Set<string>();
+		for (const fed of federations) {
+			if (isNormal(fed) && beforeSources.has(fed.sourceHost) && afterSources.has(fed.sourceHost)) {
+				keys.add(edgeKey(fed.sourceHost, fed.targetHost));
+			}
+		}
+		return keys;
+	};
+	const beforeEdges = collect(before.federations);
+	const afterEdges = collect(after.federations);
+
+	const states = new Map<string, 'added' | 'removed'>();
+	for (const key of afterEdges) {
+		if (!beforeEdges.has(key)) states.set(key, 'added');
+	}
+	for (const key of beforeEdges) {
+		if (!afterEdges.has(key)) states.set(key, 'removed');
+	}
+	return states;
+}
@@ -0,0 +1,41 @@
+// 公開DNS名だけを受け付け、IPアドレス・ポート・内部向けの名前などを拒否することを確かめる
+
+import { describe, expect, it } from 'vitest';
+import { validatePublicHost } from './host';
+
+describe('validatePublicHost', () => {
+	it('公開DNS名を小文字・punycode にそろえて受け付ける', () => {
+		expect(validatePublicHost('misskey.io')).toEqual({ ok: true, host: 'misskey.io' });
+		expect(validatePublicHost('  Misskey.IO. ')).toEqual({ ok: true, host: 'misskey.io' });
+		expect(validatePublicHost('例え.jp')).toEqual({ ok: true, host: 'xn--r8jz45g.jp' });
+	});
+
+	it.each([
+		['127.0.0.1', 'IP_ADDRESS'],
+		// 10進・16進表記も IPv4 として扱う
+		['2130706433', 'IP_ADDRESS'],
+		['0x7f.1', 'IP_ADDRESS'],
+		['[::1]', 'IP_ADDRESS'],
+		['::1', 'IP_ADDRESS'],
+		['misskey.io:8080', 'PORT'],
+		['user@misskey.io', 'USERINFO'],
+		['localhost', 'INTERNAL'],
+		['printer.local', 'INTERNAL'],
+		['metadata.internal', 'INTERNAL'],
+		['misskey.io/api', 'INVALID'],
+		['misskey.io?x=1', 'INVALID'],
+		['-bad.example.com', 'INVALID'],
+		['intranet', 'INVALID'],
+		['', 'EMPTY'],
+		[null, 'EMPTY']
+	])('%s は %s として拒否する', (input, reason) => {
+		expect(validatePublicHost(input)).toMatchObject({ ok: false, reason });
+	});
+
+	it('拒否の理由をメッセージで返す', () => {
+		const result = validatePublicHost('localhost');
+
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.message).toBe('公開されていないドメインは指定できません');
+	});
+});
@@ -0,0 +1,88 @@
+// サーバー（ホスト名）の入力の検証
+// API ルートは受け取ったホスト名を `https://${host}/...` に埋め込んで問い合わせるため、
+// 公開されたDNS名以外（IPアドレス・ポート指定・内部向けの名前など）は受け付けない
+
+export type HostRejectReason =
+	| 'EMPTY'
+	| 'IP_ADDRESS'
+	| 'PORT'
+	| 'USERINFO'
+	| 'INTERNAL'
+	| 'INVALID';
+
+export type HostValidation =
+	| { ok: true; host: string } // 小文字・punycode に正規化したホスト名
+	| { ok: false; reason: HostRejectReason; message: string };
+
+// 公開DNSでは解決されない（組織内・予約済み・特殊用途の）トップレベルドメイン
+const INTERNAL_TLDS = new Set([
+	'localhost',
+	'local',
+	'localdomain',
+	'internal',
+	'intranet',
+	'lan',
+	'home',
+	'corp',
+	'private',
+	'test',
+	'example',
+	'invalid',
+	'onion',
+	'arpa',
+	'alt'
+]);
+
+const MAX_HOST_LENGTH = 253;
+const LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const IPV4_PATTERN = /^\d+\.\d+\.\d+\.\d+$/;
+
+const MESSAGES: Record<HostRejectReason, string> = {
+	EMPTY: 'サーバーを指定してください',
+	IP_ADDRESS: 'IPアドレスは指定できません。ドメイン名を指定してください',
+	PORT: 'ポート番号は指定できません',
+	USERINFO: 'ユーザー情報（@を含む形式）は指定できません',
+	INTERNAL: '公開されていないドメインは指定できません',
+	INVALID: 'サーバーのドメイン名として正しくありません'
+};
+
+function reject(reason: HostRejectReason): HostValidation {
+	return { ok: false, reason, message: MESSAGES[reason] };
+}
+
+/**
+ * 公開DNS名のみを受け付け、小文字・punycode（IDN）に正規化する
+ */
+export function validatePublicHost(input: unknown): HostValidation {
+	if (typeof input !== 'string') return reject('EMPTY');
+	const trimmed = input.trim().toLowerCase().replace(/\.$/, '');
+	if (!trimmed) return reject('EMPTY');
+
+	// IPv6 リテラル（[::1] や ::1）
+	if (trimmed.startsWith('[') || (trimmed.match(/:/g)?.length ?? 0) > 1) return reject('IP_ADDRESS');
+	if (trimmed.includes('@')) return reject('USERINFO');
+	if (trimmed.includes(':')) return reject('PORT');
+	// ホスト名以外（パス・クエリなど）を含む
+	if (/[\s/\\?#%]/.test(trimmed)) return reject('INVALID');
+
+	// URL の解析で IDN を punycode に変換する（10進・16進表記の IPv4 も正規化される）
+	let host: string;
+	try {
+		host = new URL(`https://${trimmed}/`).hostname;
+	} catch {
+		return reject('INVALID');
+	}
+
+	if (IPV4_PATTERN.test(host)) return reject('IP_ADDRESS');
+	if (host.length > MAX_HOST_LENGTH) return reject('INVALID');
+
+	const labels = host.split('.');
+	const tld = labels[labels.length - 1];
+	if (labels.length < 2) return tld === 'localhost' ? reject('INTERNAL') : reject('INVALID');
+	if (!labels.every((label) => LABEL_PATTERN.test(label))) return reject('INVALID');
+	// 数字のみのトップレベルドメインは存在しない
+	if (/^\d+$/.test(tld)) return reject('INVALID');
+	if (INTERNAL_TLDS.has(tld)) return reject('INTERNAL');
+
+	return { ok: true, host };
+}
@@ -0,0 +1,81 @@
+// グラフの配置方法
+// 力学モデル（cose / fcose）のほか、視点サーバーやフォーカス中のサーバーからのホップ数による同心円、
+// 決まった乱数で計算して共有URLで同じ配置になるものを選べる
+
+export type GraphLayout = 'cose' | 'fcose' | 'concentric' | 'radial' | 'seeded';
+
+export const GRAPH_LAYOUT_LABELS: Record<GraphLayout, { label: string; description: string }> = {
+	cose: {
+		label: '標準',
+		description: '力学モデル（読み込むたびに配置が少し変わる）'
+	},
+	fcose: {
+		label: 'fCoSE',
+		description: '高速な力学モデル。大きなグラフでもまとまりが分かれやすい'
+	},
+	concentric: {
+		label: '視点から',
+		description: '視点サーバーを中心に、たどるホップ数ごとの同心円'
+	},
+	radial: {
+		label: '放射',
+		description: 'フォーカス中のサーバー（なければ最初の視点サーバー）を中心にした同心円'
+	},
+	seeded: {
+		label: '固定',
+		description: '標準と同じ力学モデルを決まった乱数で計算（同じデータなら同じ配置）'
+	}
+};
+
+export const DEFAULT_GRAPH_LAYOUT: GraphLayout = 'cose';
+
+export function isGraphLayout(value: string | null | undefined): value is GraphLayout {
+	return !!value && Object.keys(GRAPH_LAYOUT_LABELS).includes(value);
+}
+
+/**
+ * 起点からのホップ数（向きは区別しない）。たどり着けないホストは含まない
+ */
+export function hopDistances(
+	roots: string[],
+	edges: Array<{ source: string; target: string }>
+): Map<string, number> {
+	const adjacency = new Map<string, string[]>();
+	const link = (a: string, b: string) => {
+		const list = adjacency.get(a);
+		if (list) list.push(b);
+		else adjacency.set(a, [b]);
+	};
+	for (const { source, target } of edges) {
+		link(source, target);
+		link(target, source);
+	}
+
+	const distances = new Map<string, number>();
+	let frontier = roots.filter((host) => adjacency.has(host));
+	for (const host of frontier) distances.set(host, 0);
+	for (let depth = 1; frontier.length > 0; depth++) {
+		const next: string[] = [];
+		for (const host of frontier) {
+			for (const neighbour of adjacency.get(host) ?? []) {
+				if (distances.has(neighbour)) continue;
+				distances.set(neighbour, depth);
+				next.push(neighbour);
+			}
+		}
+		frontier = next;
+	}
+	return distances;
+}
+
+// 決まった種から同じ列を返す乱数（mulberry32）
+export function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
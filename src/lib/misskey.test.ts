@@ -0,0 +1,76 @@
+// offset でのページングと、上限・途中の失敗での打ち切りを確かめる
+
+import { describe, expect, it } from 'vitest';
+import { misskeyPaginate } from './misskey';
+
+// offset と limit に応じて total 件の一覧を返す Misskey API（failAt 件目からのページは 500）
+function createListApi(total: number, failAt: number | null = null) {
+	const requests: Array<{ offset: number; limit: number }> = [];
+	const fetchFn = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+		const { offset, limit } = JSON.parse(String(init?.body)) as { offset: number; limit: number };
+		requests.push({ offset, limit });
+		if (failAt !== null && offset >= failAt) {
+			return new Response(JSON.stringify({ error: { code: 'INTERNAL_ERROR' } }), { status: 500 });
+		}
+		const items = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, i) => ({ id: offset + i }));
+		return new Response(JSON.stringify(items));
+	}) as typeof fetch;
+	return { fetchFn, requests };
+}
+
+describe('misskeyPaginate', () => {
+	it('要求した件数に満たないページまで取得し、打ち切りにはしない', async () => {
+		const { fetchFn, requests } = createListApi(5);
+		const res = await misskeyPaginate<{ id: number }>('misskey.example', 'federation/instances', {}, {
+			fetchFn,
+			pageSize: 2,
+			retries: 0
+		});
+
+		expect(res).toEqual({
+			ok: true,
+			status: 200,
+			data: { items: [0, 1, 2, 3, 4].map((id) => ({ id })), truncated: false }
+		});
+		expect(requests).toEqual([
+			{ offset: 0, limit: 2 },
+			{ offset: 2, limit: 2 },
+			{ offset: 4, limit: 2 }
+		]);
+	});
+
+	it('上限に達したら残りがあるかわからないため打ち切りとする', async () => {
+		const { fetchFn, requests } = createListApi(10);
+		const res = await misskeyPaginate<{ id: number }>('misskey.example', 'federation/instances', {}, {
+			fetchFn,
+			limit: 3,
+			pageSize: 2,
+			retries: 0
+		});
+
+		expect(res.ok && res.data).toEqual({ items: [0, 1, 2].map((id) => ({ id })), truncated: true });
+		// 最後のページは上限までの残りの件数だけ要求する
+		expect(requests.at(-1)).toEqual({ offset: 2, limit: 1 });
+	});
+
+	it('途中のページで失敗したら取得済みの分を打ち切りとして返す', async () => {
+		const { fetchFn } = createListApi(10, 4);
+		const res = await misskeyPaginate<{ id: number }>('misskey.example', 'federation/instances', {}, {
+			fetchFn,
+			pageSize: 2,
+			retries: 0
+		});
+
+		expect(res.ok && res.data).toEqual({ items: [0, 1, 2, 3].map((id) => ({ id })), truncated: true });
+	});
+
+	it('最初のページで失敗したらエラーを返す', async () => {
+		const { fetchFn } = createListApi(10, 0);
+		const res = await misskeyPaginate('misskey.example', 'federation/instances', {}, { fetchFn, retries: 0 });
+
+		expect(res).toEqual({
+			ok: false,
+			error: { kind: 'API_ERROR', status: 500, code: 'INTERNAL_ERROR', message: null }
+		});
+	});
+});
@@ -0,0 +1,247 @@
+// Misskey API クライアント
+// サーバーサイド（APIルート・クロール）とブラウザの両方から使う共通の呼び出し口
+
+import { browser } from '$app/environment';
+
+export const USER_AGENT = 'Missmap/1.0 (https://missmap.pages.dev)';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+// Retry-After がこれより長い場合は待たずに失敗とする
+const MAX_RETRY_WAIT_MS = 10000;
+
+/**
+ * Misskey API のエラー
+ * kind で判別する（Misskey の error.code をそのまま使うものと、通信レベルのもの）
+ */
+export type MisskeyError =
+	| { kind: 'CREDENTIAL_REQUIRED'; status: number; message: string | null } // 認証が必要
+	| { kind: 'PERMISSION_DENIED'; status: number; message: string | null } // トークンの権限不足
+	| { kind: 'NO_SUCH_OBJECT'; status: number; message: string | null } // 対象が存在しない
+	| { kind: 'NO_SUCH_APP'; status: number; message: string | null } // アプリ登録が無効
+	| { kind: 'RATE_LIMITED'; status: number; message: string | null } // 429（リトライ上限到達）
+	| { kind: 'API_ERROR'; status: number; code: string | null; message: string | null } // その他の応答エラー
+	| { kind: 'INVALID_RESPONSE'; status: number } // JSON として解釈できない
+	| { kind: 'TIMEOUT' }
+	| { kind: 'NETWORK_ERROR'; message: string };
+
+export type MisskeyErrorKind = MisskeyError['kind'];
+
+export type MisskeyResult<T> = { ok: true; status: number; data: T } | { ok: false; error: MisskeyError };
+
+export interface MisskeyRequestOptions {
+	fetchFn?: typeof fetch; // SvelteKit の fetch やクロール用のラッパーを渡す
+	token?: string | null; // 指定時はリクエストボディの i に含める
+	timeoutMs?: number;
+	retries?: number; // 429/5xx 時の再試行回数（書き込み系は0にする）
+}
+
+// Misskey のエラーコードのうち個別に扱うもの
+const KNOWN_ERROR_CODES = ['CREDENTIAL_REQUIRED', 'PERMISSION_DENIED', 'NO_SUCH_OBJECT', 'NO_SUCH_APP'] as const;
+type KnownErrorCode = (typeof KNOWN_ERROR_CODES)[number];
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// 再試行までの待ち時間（Retry-After を優先し、なければ指数バックオフ）
+function getRetryDelay(res: Response, attempt: number): number {
+	const retryAfter = res.headers.get('Retry-After');
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (!Number.isNaN(seconds)) return seconds * 1000;
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+	return BACKOFF_BASE_MS * 2 ** attempt;
+}
+
+// エラー応答を MisskeyError に変換
+async function parseErrorResponse(res: Response): Promise<MisskeyError> {
+	let code: string | null = null;
+	let message: string | null = null;
+	try {
+		const body = (await res.json()) as { error?: { code?: string; message?: string } };
+		code = body?.error?.code ?? null;
+		message = body?.error?.message ?? null;
+	} catch {
+		// HTMLなどJSON以外のエラー応答
+	}
+
+	if (code && (KNOWN_ERROR_CODES as readonly string[]).includes(code)) {
+		return { kind: code as KnownErrorCode, status: res.status, message };
+	}
+	if (res.status === 429) {
+		return { kind: 'RATE_LIMITED', status: res.status, message };
+	}
+	return { kind: 'API_ERROR', status: res.status, code, message };
+}
+
+/**
+ * タイムアウト・再試行付きで JSON を取得する
+ * 429 と 5xx のみ再試行し、それ以外のエラーは即座に返す
+ */
+export async function requestJson<T>(
+	url: string,
+	init: RequestInit = {},
+	options: MisskeyRequestOptions = {}
+): Promise<MisskeyResult<T>> {
+	const fetchFn = options.fetchFn ?? fetch;
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const retries = options.retries ?? DEFAULT_RETRIES;
+
+	const headers = new Headers(init.headers);
+	headers.set('Accept', 'application/json');
+	// ブラウザでは User-Agent を変更できない（CORSプリフライトの対象にもなる）
+	if (!browser) {
+		headers.set('User-Agent', USER_AGENT);
+	}
+
+	for (let attempt = 0; ; attempt++) {
+		const controller = new AbortController();
+		// タイムアウトはボディの読み込みまで含める
+		const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+		try {
+			const res = await fetchFn(url, { ...init, headers, signal: controller.signal });
+
+			if (res.ok) {
+				// 204 No Content などボディのない応答
+				const text = await res.text();
+				try {
+					return { ok: true, status: res.status, data: (text ? JSON.parse(text) : null) as T };
+				} catch {
+					return { ok: false, error: { kind: 'INVALID_RESPONSE', status: res.status } };
+				}
+			}
+
+			const retryable = res.status === 429 || res.status >= 500;
+			if (retryable && attempt < retries) {
+				const delay = getRetryDelay(res, attempt);
+				if (delay <= MAX_RETRY_WAIT_MS) {
+					// ボディを読み捨ててから再試行
+					await res.body?.cancel();
+					clearTimeout(timeoutId);
+					await sleep(delay);
+					continue;
+				}
+			}
+
+			return { ok: false, error: await parseErrorResponse(res) };
+		} catch (e) {
+			if (e instanceof Error && e.name === 'AbortError') {
+				return { ok: false, error: { kind: 'TIMEOUT' } };
+			}
+			return {
+				ok: false,
+				error: { kind: 'NETWORK_ERROR', message: e instanceof Error ? e.message : String(e) }
+			};
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+}
+
+/**
+ * Misskey API（POST /api/<endpoint>）を呼び出す
+ * params に FormData を渡すとマルチパートで送信する（ドライブへのアップロード用）
+ */
+export async function misskeyApi<T>(
+	host: string,
+	endpoint: string,
+	params: Record<string, unknown> | FormData = {},
+	options: MisskeyRequestOptions = {}
+): Promise<MisskeyResult<T>> {
+	const url = `https://${host}/api/${endpoint}`;
+
+	if (params instanceof FormData) {
+		// Misskey はファイルより後ろのフィールドを読まないため、i を先頭に置く
+		const formData = new FormData();
+		if (options.token) formData.append('i', options.token);
+		for (const [key, value] of params) {
+			formData.append(key, value);
+		}
+		return requestJson<T>(url, { method: 'POST', body: formData }, options);
+	}
+
+	const body = options.token ? { ...params, i: options.token } : params;
+	return requestJson<T>(
+		url,
+		{
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body)
+		},
+		options
+	);
+}
+
+export interface MisskeyPaginateOptions extends MisskeyRequestOptions {
+	limit?: number; // 取得件数の上限
+	pageSize?: number; // 1回あたりの取得件数
+}
+
+// ページングで取得した一覧（上限到達や途中の失敗で打ち切った場合は truncated）
+export interface MisskeyPage<T> {
+	items: T[];
+	truncated: boolean;
+}
+
+const DEFAULT_PAGE_LIMIT = 1000;
+const DEFAULT_PAGE_SIZE = 30;
+
+/**
+ * offset でページングしながら一覧を取得する
+ * 取得し尽くすか上限に達するまで続け、最初のページで失敗した場合のみエラーを返す
+ */
+export async function misskeyPaginate<T>(
+	host: string,
+	endpoint: string,
+	params: Record<string, unknown> = {},
+	options: MisskeyPaginateOptions = {}
+): Promise<MisskeyResult<MisskeyPage<T>>> {
+	const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+	const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, limit);
+	const items: T[] = [];
+	let status = 200;
+
+	while (items.length < limit) {
+		const size = Math.min(pageSize, limit - items.length);
+		const res = await misskeyApi<T[]>(host, endpoint, { ...params, limit: size, offset: items.length }, options);
+		if (!res.ok) {
+			if (items.length === 0) return res;
+			// 途中のページで失敗した場合は取得済みの分を返す
+			return { ok: true, status, data: { items, truncated: true } };
+		}
+		status = res.status;
+		const page = res.data ?? [];
+		items.push(...page);
+
+		// 要求した件数に満たなければ最後のページ
+		if (page.length < size) {
+			return { ok: true, status, data: { items, truncated: false } };
+		}
+	}
+
+	// 上限に達した場合は残りがあるかわからないため打ち切りとして扱う
+	return { ok: true, status, data: { items, truncated: true } };
+}
+
+/**
+ * エラーの概要（ログ用）
+ */
+export function formatMisskeyError(error: MisskeyError): string {
+	switch (error.kind) {
+		case 'TIMEOUT':
+			return 'TIMEOUT';
+		case 'NETWORK_ERROR':
+			return `NETWORK_ERROR: ${error.message}`;
+		case 'INVALID_RESPONSE':
+			return `INVALID_RESPONSE (${error.status})`;
+		case 'API_ERROR':
+			return `API_ERROR (${error.status}${error.code ? ` ${error.code}` : ''})`;
+		default:
+			return `${error.kind} (${error.status})`;
+	}
+}
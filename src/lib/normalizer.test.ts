@@ -0,0 +1,182 @@
+// 各取得元の生データ（fixtures/normalizer）から、登録要件・年齢制限の判定と取得元を確かめる
+
+import { describe, expect, it } from 'vitest';
+import { normalizeServerInfo, type JoinMisskeyInstance } from './normalizer';
+import nodeInfoMisskey from './fixtures/normalizer/nodeinfo-misskey.json';
+import metaOpen from './fixtures/normalizer/meta-open.json';
+import metaInvite from './fixtures/normalizer/meta-invite.json';
+import metaApproval from './fixtures/normalizer/meta-approval.json';
+import instanceInvite from './fixtures/normalizer/instance-invite.json';
+import instanceApproval from './fixtures/normalizer/instance-approval.json';
+import joinMisskeyNsfw from './fixtures/normalizer/joinmisskey-nsfw.json';
+import joinMisskeyClosed from './fixtures/normalizer/joinmisskey-closed.json';
+import joinMisskeyAdults from './fixtures/normalizer/joinmisskey-adults.json';
+import metaMinorsConsent from './fixtures/normalizer/meta-minors-consent.json';
+import metaMinorsProhibited from './fixtures/normalizer/meta-minors-prohibited.json';
+import metaNoDescription from './fixtures/normalizer/meta-no-description.json';
+
+describe('normalizeServerInfo: Misskey の /api/meta と NodeInfo', () => {
+	it('登録受付中のサーバーは招待制ではなく、ルールに明記された年齢制限を使う', () => {
+		const info = normalizeServerInfo('misskey.example', 'misskey', { meta: metaOpen, nodeInfo: nodeInfoMisskey });
+
+		expect(info.registrationOpen).toBe(true);
+		expect(info.emailRequired).toBe(true);
+		expect(info.approvalRequired).toBe(false);
+		expect(info.inviteOnly).toBe(false);
+		expect(info.ageRestriction).toBe('18+');
+		expect(info.ageEvidence).toEqual({
+			kind: 'stated',
+			field: 'serverRule',
+			ruleIndex: 2,
+			match: '18歳以上',
+			text: '18歳以上の方のみ登録できます'
+		});
+		expect(info.usersCount).toBe(1520);
+		expect(info.iconUrl).toBe('https://misskey.example/files/icon.png');
+		expect(info.provenance).toMatchObject({
+			registrationOpen: { source: 'meta', confidence: 1 },
+			emailRequired: { source: 'meta', confidence: 1 },
+			approvalRequired: { source: 'meta', confidence: 1 },
+			inviteOnly: { source: 'meta', confidence: 1 },
+			ageRestriction: { source: 'meta', confidence: 1 },
+			usersCount: { source: 'nodeinfo', confidence: 1 }
+		});
+	});
+
+	it('登録停止中で基本ロールが招待を作成できれば招待制', () => {
+		const info = normalizeServerInfo('invite.example', 'misskey', { meta: metaInvite });
+
+		expect(info.registrationOpen).toBe(false);
+		expect(info.inviteOnly).toBe(true);
+		expect(info.ageRestriction).toBe('unknown');
+		expect(info.ageEvidence).toBeNull();
+		expect(info.provenance).toMatchObject({
+			registrationOpen: { source: 'meta', confidence: 1 },
+			inviteOnly: { source: 'meta', confidence: 0.8 },
+			ageRestriction: { source: 'default', confidence: 0 }
+		});
+	});
+
+	it('承認制のサーバーは招待制とみなさない', () => {
+		const info = normalizeServerInfo('approval.example', 'misskey', { meta: metaApproval });
+
+		expect(info.registrationOpen).toBe(false);
+		expect(info.approvalRequired).toBe(true);
+		expect(info.inviteOnly).toBe(false);
+		expect(info.provenance).toMatchObject({
+			approvalRequired: { source: 'meta', confidence: 1 },
+			inviteOnly: { source: 'inferred', confidence: 0.5 }
+		});
+	});
+});
+
+describe('normalizeServerInfo: 未成年についての記述', () => {
+	it('保護者の同意や歓迎の記述は18歳以上の制限とみなさない', () => {
+		const info = normalizeServerInfo('drawing.example', 'misskey', { meta: metaMinorsConsent });
+
+		expect(info.ageRestriction).toBe('unknown');
+		expect(info.ageEvidence).toBeNull();
+	});
+
+	it('未成年の利用を禁止していれば18歳以上と明記されたものとする', () => {
+		const info = normalizeServerInfo('night.example', 'misskey', { meta: metaMinorsProhibited });
+
+		expect(info.ageRestriction).toBe('18+');
+		expect(info.ageEvidence).toMatchObject({ kind: 'stated', field: 'serverRule', ruleIndex: 1, match: '未成年の利用は禁止' });
+		expect(info.provenance).toMatchObject({ ageRestriction: { source: 'meta', confidence: 1 } });
+	});
+
+	it('一致した文章が joinmisskey のものなら取得元も joinmisskey', () => {
+		const info = normalizeServerInfo('quiet.example', 'misskey', {
+			meta: metaNoDescription,
+			joinMisskey: joinMisskeyAdults as JoinMisskeyInstance
+		});
+
+		expect(info.ageRestriction).toBe('18+');
+		expect(info.ageEvidence).toMatchObject({ kind: 'stated', field: 'description', match: '18歳以上' });
+		expect(info.provenance).toMatchObject({ ageRestriction: { source: 'joinmisskey', confidence: 0.8 } });
+	});
+});
+
+describe('normalizeServerInfo: Mastodon の /api/v1/instance', () => {
+	it('invites_enabled で招待制を判定し、ルールの年齢を使う', () => {
+		const info = normalizeServerInfo('mastodon.example', 'mastodon', { instance: instanceInvite });
+
+		expect(info.name).toBe('Example Mastodon');
+		expect(info.description).toBe('小さな Mastodon サーバー');
+		expect(info.registrationOpen).toBe(false);
+		expect(info.emailRequired).toBe(true);
+		expect(info.inviteOnly).toBe(true);
+		expect(info.ageRestriction).toBe('13+');
+		expect(info.ageEvidence).toMatchObject({ kind: 'stated', field: 'serverRule', ruleIndex: 1, match: '13歳' });
+		expect(info.usersCount).toBe(42);
+		expect(info.provenance).toMatchObject({
+			registrationOpen: { source: 'instance', confidence: 1 },
+			emailRequired: { source: 'instance', confidence: 0.7 },
+			inviteOnly: { source: 'instance', confidence: 1 },
+			ageRestriction: { source: 'instance', confidence: 1 },
+			usersCount: { source: 'instance', confidence: 1 }
+		});
+	});
+
+	it('承認制で受付中のサーバーは、仕様上のメール必須から年齢を推測しない', () => {
+		const info = normalizeServerInfo('approval.example', 'mastodon', { instance: instanceApproval });
+
+		expect(info.registrationOpen).toBe(true);
+		expect(info.approvalRequired).toBe(true);
+		expect(info.inviteOnly).toBe(false);
+		expect(info.ageRestriction).toBe('unknown');
+		expect(info.provenance).toMatchObject({
+			approvalRequired: { source: 'instance', confidence: 1 },
+			inviteOnly: { source: 'instance', confidence: 1 },
+			ageRestriction: { source: 'default', confidence: 0 }
+		});
+	});
+});
+
+describe('normalizeServerInfo: joinmisskey', () => {
+	it('キャッシュの情報で判定し、成人向けの語から年齢を推測する', () => {
+		const info = normalizeServerInfo('nsfw.example', 'misskey', { joinMisskey: joinMisskeyNsfw as JoinMisskeyInstance });
+
+		expect(info.registrationOpen).toBe(false);
+		expect(info.inviteOnly).toBe(true);
+		expect(info.ageRestriction).toBe('18+');
+		expect(info.ageEvidence).toMatchObject({ kind: 'inferred', field: 'description', match: 'NSFW' });
+		expect(info.dru15).toBe(35);
+		expect(info.npd15).toBe(410);
+		expect(info.provenance).toMatchObject({
+			registrationOpen: { source: 'joinmisskey', confidence: 0.8 },
+			emailRequired: { source: 'joinmisskey', confidence: 0.8 },
+			inviteOnly: { source: 'joinmisskey', confidence: 0.8 },
+			ageRestriction: { source: 'inferred', confidence: 0.5 }
+		});
+	});
+
+	it('登録停止中で承認制・招待の情報がなければ招待制と推測する', () => {
+		const info = normalizeServerInfo('closed.example', 'misskey', { joinMisskey: joinMisskeyClosed as JoinMisskeyInstance });
+
+		expect(info.registrationOpen).toBe(false);
+		expect(info.inviteOnly).toBe(true);
+		expect(info.ageRestriction).toBe('unknown');
+		expect(info.provenance).toMatchObject({
+			registrationOpen: { source: 'joinmisskey', confidence: 0.8 },
+			approvalRequired: { source: 'default', confidence: 0 },
+			inviteOnly: { source: 'inferred', confidence: 0.5 }
+		});
+	});
+});
+
+describe('normalizeServerInfo: 情報がない場合', () => {
+	it('登録状況が分からなければ招待制とは推測しない', () => {
+		const info = normalizeServerInfo('unknown.example', 'misskey', {});
+
+		expect(info.registrationOpen).toBe(false);
+		expect(info.inviteOnly).toBe(false);
+		expect(info.ageRestriction).toBe('unknown');
+		expect(info.provenance).toMatchObject({
+			registrationOpen: { source: 'default', confidence: 0 },
+			inviteOnly: { source: 'default', confidence: 0 },
+			ageRestriction: { source: 'default', confidence: 0 }
+		});
+	});
+});
@@ -0,0 +1,414 @@
+// サーバーのメタ情報の正規化
+// NodeInfo・/api/meta・/api/v1/instance・joinmisskey の生データから、
+// 同じ判定ルールで ServerInfo を作成し、各項目の取得元と確からしさを記録する
+
+import type { ServerInfo, SoftwareFamily } from './collector';
+
+// NodeInfo 2.x のうち使用する部分
+export interface NodeInfo {
+	software?: {
+		name?: string;
+		version?: string;
+		repository?: string;
+	};
+	openRegistrations?: boolean;
+	usage?: {
+		users?: { total?: number };
+		localPosts?: number;
+	};
+	metadata?: Record<string, unknown>;
+}
+
+// Misskey の /api/meta のうち使用する部分
+export interface MisskeyMeta {
+	name?: string | null;
+	description?: string | null;
+	langs?: string[];
+	version?: string;
+	repositoryUrl?: string | null;
+	iconUrl?: string | null;
+	disableRegistration?: boolean;
+	emailRequiredForSignup?: boolean;
+	approvalRequiredForSignup?: boolean;
+	serverRules?: string[];
+	originalUsersCount?: number;
+	originalNotesCount?: number;
+	policies?: {
+		canInvite?: boolean;
+		[key: string]: unknown;
+	};
+}
+
+// Mastodon 互換の GET /api/v1/instance（v1）のうち使用する部分
+export interface MastodonInstance {
+	title?: string;
+	short_description?: string;
+	description?: string;
+	version?: string;
+	thumbnail?: string | null;
+	languages?: string[];
+	registrations?: boolean;
+	approval_required?: boolean;
+	invites_enabled?: boolean;
+	stats?: {
+		user_count?: number;
+		status_count?: number;
+	};
+	rules?: Array<{ text?: string }>;
+}
+
+// joinmisskey API のインスタンス情報
+export interface JoinMisskeyInstance {
+	url: string;
+	langs: string[];
+	name?: string;
+	description?: string;
+	isAlive: boolean;
+	value?: number; // アクティビティスコア（直近のアクティビティ指標）
+	dru15?: number; // Daily Read Users (15日平均) - アクティブ閲覧ユーザー数
+	npd15?: number; // Notes Per Day (15日平均) - 1日あたりのノート数
+	meta?: MisskeyMeta;
+	nodeinfo?: NodeInfo;
+	iconUrl?: string;
+}
+
+// 正規化の入力（取得できたものだけ渡す）
+export interface RawServerMetadata {
+	nodeInfo?: NodeInfo | null;
+	meta?: MisskeyMeta | null; // Misskey の /api/meta
+	instance?: MastodonInstance | null; // Mastodon 互換の /api/v1/instance
+	joinMisskey?: JoinMisskeyInstance | null;
+}
+
+// 項目の取得元
+// inferred は他の項目や文章からの推測、default は情報がなく既定値を使ったもの
+export type MetadataSource = 'nodeinfo' | 'meta' | 'instance' | 'joinmisskey' | 'inferred' | 'default';
+
+// 取得元と確からしさ（0〜1）
+export interface FieldProvenance {
+	source: MetadataSource;
+	confidence: number;
+}
+
+// 取得元を記録する項目
+export type ProvenanceField =
+	| 'usersCount'
+	| 'notesCount'
+	| 'repositoryUrl'
+	| 'registrationOpen'
+	| 'emailRequired'
+	| 'approvalRequired'
+	| 'inviteOnly'
+	| 'ageRestriction';
+
+export type ServerInfoProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
+// 年齢制限の根拠となった項目
+export type AgeEvidenceField = 'name' | 'description' | 'serverRule' | 'emailRequired';
+
+// 年齢制限の根拠
+// stated はサーバー自身が年齢を明記しているもの、inferred はそれ以外からの推測
+export interface AgeRestrictionEvidence {
+	kind: 'stated' | 'inferred';
+	field: AgeEvidenceField;
+	ruleIndex?: number; // サーバールールの番号（1始まり）
+	match: string | null; // 一致した語句
+	text: string | null; // 一致した箇所の前後
+}
+
+// 確からしさの目安
+// サーバー自身のAPI > joinmisskey（取得時点のキャッシュ） > ソフトウェアの仕様 > 推測 > 既定値
+const CONFIDENCE = {
+	live: 1,
+	cached: 0.8,
+	software: 0.7,
+	inferred: 0.5,
+	weak: 0.2,
+	none: 0
+} as const;
+
+// 値と取得元の組
+interface Sourced<T> {
+	value: T;
+	source: MetadataSource;
+	confidence: number;
+}
+
+// 候補のうち値があるもの（先頭優先）を選ぶ
+function pick<T>(
+	candidates: Array<[T | null | undefined, MetadataSource, number]>,
+	fallback: T
+): Sourced<T> {
+	for (const [value, source, confidence] of candidates) {
+		if (value !== null && value !== undefined) {
+			return { value, source, confidence };
+		}
+	}
+	return { value: fallback, source: 'default', confidence: CONFIDENCE.none };
+}
+
+// HTMLタグを除去（Mastodon系の説明文はHTML）
+function stripHtml(html: string): string {
+	return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function toAbsoluteUrl(host: string, url: string | null | undefined): string | null {
+	if (!url) return null;
+	if (url.startsWith('http')) return url;
+	return `https://${host}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+// 年齢制限を示す表現（上から順に優先）
+// 年齢の明記を、成人向けの内容であることからの推測より優先する
+const AGE_PATTERNS: Array<{ value: '13+' | '18+'; kind: AgeRestrictionEvidence['kind']; pattern: RegExp }> = [
+	// 未成年について書かれていても、保護者の同意などの条件は18歳以上の制限ではないため、禁止しているもののみ
+	{ value: '18+', kind: 'stated', pattern: /18\s*\+|18\s*[歳才]以上|18\s*[歳才]未満|成人限定|未成年(?:の方)?[のは](?:登録|利用)(?:を|は)?(?:禁止|不可|できません|お断り)|adults?\s+only/i },
+	{ value: '13+', kind: 'stated', pattern: /13\s*\+|13\s*[歳才]|中学生以上/i },
+	// 「未成年」の中の「成年」は成人向けの意味ではない
+	{ value: '18+', kind: 'inferred', pattern: /成人|(?<!未)成年|アダルト|r-?18|nsfw/i }
+];
+
+// 一致箇所の前後を切り出す
+const EXCERPT_CONTEXT = 20;
+
+function excerpt(text: string, index: number, length: number): string {
+	const start = Math.max(0, index - EXCERPT_CONTEXT);
+	const end = Math.min(text.length, index + length + EXCERPT_CONTEXT);
+	return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+// 年齢制限を探す文章（上から順に優先）
+export interface AgeEvidenceText {
+	field: AgeEvidenceField;
+	ruleIndex?: number;
+	text: string;
+	source: MetadataSource; // 文章の取得元
+}
+
+/**
+ * 文章から年齢制限とその根拠を探す
+ */
+export function findAgeRestriction(
+	texts: AgeEvidenceText[]
+): { value: '13+' | '18+'; source: MetadataSource; evidence: AgeRestrictionEvidence } | null {
+	for (const { value, kind, pattern } of AGE_PATTERNS) {
+		for (const { field, ruleIndex, text, source } of texts) {
+			const match = pattern.exec(text);
+			if (!match) continue;
+			return {
+				value,
+				source,
+				evidence: {
+					kind,
+					field,
+					...(ruleIndex !== undefined ? { ruleIndex } : {}),
+					match: match[0],
+					text: excerpt(text, match.index, match[0].length)
+				}
+			};
+		}
+	}
+	return null;
+}
+
+/**
+ * 招待制の判定
+ * 登録を閉じていて承認制でもなければ招待コードでの登録とみなす
+ * （Misskey は登録停止中も招待コードで登録でき、Mastodon は invites_enabled で判別できる）
+ */
+function classifyInviteOnly(
+	raw: RawServerMetadata,
+	registrationOpen: Sourced<boolean>,
+	approvalRequired: Sourced<boolean>
+): Sourced<boolean> {
+	if (registrationOpen.value) {
+		return { value: false, source: registrationOpen.source, confidence: registrationOpen.confidence };
+	}
+	if (raw.instance?.invites_enabled !== undefined) {
+		return { value: raw.instance.invites_enabled, source: 'instance', confidence: CONFIDENCE.live };
+	}
+	// 登録状況が分からなければ招待制とは推測しない
+	if (registrationOpen.source === 'default') {
+		return { value: false, source: 'default', confidence: CONFIDENCE.none };
+	}
+	if (approvalRequired.value) {
+		return { value: false, source: 'inferred', confidence: CONFIDENCE.inferred };
+	}
+	// 基本ロールで招待を作成できれば招待制であることがほぼ確実
+	const policies = raw.meta?.policies ?? raw.joinMisskey?.meta?.policies;
+	if (policies?.canInvite === true) {
+		return { value: true, source: raw.meta?.policies ? 'meta' : 'joinmisskey', confidence: CONFIDENCE.cached };
+	}
+	return { value: true, source: 'inferred', confidence: CONFIDENCE.inferred };
+}
+
+/**
+ * 年齢制限の判定
+ * サーバールール・説明・名前の文章から探し、見つからなければ登録要件から弱く推測する
+ */
+function classifyAgeRestriction(
+	texts: AgeEvidenceText[],
+	emailRequired: Sourced<boolean>
+): Sourced<ServerInfo['ageRestriction']> & { evidence: AgeRestrictionEvidence | null } {
+	const found = findAgeRestriction(texts);
+	if (found) {
+		if (found.evidence.kind === 'inferred') {
+			return { value: found.value, source: 'inferred', confidence: CONFIDENCE.inferred, evidence: found.evidence };
+		}
+		// 明記されている場合は一致した文章の取得元をそのまま記録する
+		return {
+			value: found.value,
+			source: found.source,
+			confidence: found.source === 'joinmisskey' ? CONFIDENCE.cached : CONFIDENCE.live,
+			evidence: found.evidence
+		};
+	}
+
+	// メール必須のサーバーは多くが13歳以上制限
+	// Mastodon系はメール必須が全サーバー共通の仕様のため、推測には使わない
+	if (emailRequired.value && emailRequired.source !== 'default' && emailRequired.source !== 'instance') {
+		return {
+			value: '13+',
+			source: 'inferred',
+			confidence: CONFIDENCE.weak,
+			evidence: { kind: 'inferred', field: 'emailRequired', match: null, text: null }
+		};
+	}
+
+	return { value: 'unknown', source: 'default', confidence: CONFIDENCE.none, evidence: null };
+}
+
+/**
+ * 生データから ServerInfo を作成する
+ * 同じ項目が複数の取得元にある場合は、サーバー自身のAPI → NodeInfo → joinmisskey の順に優先する
+ */
+export function normalizeServerInfo(
+	host: string,
+	family: SoftwareFamily,
+	raw: RawServerMetadata,
+	defaultRepositoryUrl: string | null = null
+): ServerInfo {
+	const { nodeInfo, meta, instance, joinMisskey } = raw;
+	const joinMeta = joinMisskey?.meta;
+	const joinNodeInfo = joinMisskey?.nodeinfo;
+
+	const description = pick<string | null>([
+		[meta?.description, 'meta', CONFIDENCE.live],
+		[instance ? stripHtml(instance.short_description || instance.description || '') || null : null, 'instance', CONFIDENCE.live],
+		[joinMisskey?.description, 'joinmisskey', CONFIDENCE.cached],
+		[joinMeta?.description, 'joinmisskey', CONFIDENCE.cached]
+	], null);
+	const name = pick<string | null>([
+		[meta?.name, 'meta', CONFIDENCE.live],
+		[instance?.title, 'instance', CONFIDENCE.live],
+		[joinMisskey?.name, 'joinmisskey', CONFIDENCE.cached],
+		[joinMeta?.name, 'joinmisskey', CONFIDENCE.cached]
+	], null);
+
+	const usersCount = pick<number | null>([
+		[meta?.originalUsersCount, 'meta', CONFIDENCE.live],
+		[instance?.stats?.user_count, 'instance', CONFIDENCE.live],
+		[nodeInfo?.usage?.users?.total, 'nodeinfo', CONFIDENCE.live],
+		[joinNodeInfo?.usage?.users?.total, 'joinmisskey', CONFIDENCE.cached]
+	], null);
+
+	const notesCount = pick<number | null>([
+		[meta?.originalNotesCount, 'meta', CONFIDENCE.live],
+		[instance?.stats?.status_count, 'instance', CONFIDENCE.live],
+		[nodeInfo?.usage?.localPosts, 'nodeinfo', CONFIDENCE.live],
+		[joinNodeInfo?.usage?.localPosts, 'joinmisskey', CONFIDENCE.cached]
+	], null);
+
+	const repositoryUrl = pick<string | null>([
+		[meta?.repositoryUrl, 'meta', CONFIDENCE.live],
+		[nodeInfo?.software?.repository, 'nodeinfo', CONFIDENCE.live],
+		[joinNodeInfo?.software?.repository, 'joinmisskey', CONFIDENCE.cached],
+		[joinMeta?.repositoryUrl, 'joinmisskey', CONFIDENCE.cached],
+		[defaultRepositoryUrl, 'inferred', CONFIDENCE.software]
+	], null);
+
+	const registrationOpen = pick<boolean>([
+		[meta?.disableRegistration === undefined ? undefined : !meta.disableRegistration, 'meta', CONFIDENCE.live],
+		[instance?.registrations, 'instance', CONFIDENCE.live],
+		[nodeInfo?.openRegistrations, 'nodeinfo', CONFIDENCE.live],
+		[joinNodeInfo?.openRegistrations, 'joinmisskey', CONFIDENCE.cached],
+		[joinMeta?.disableRegistration === undefined ? undefined : !joinMeta.disableRegistration, 'joinmisskey', CONFIDENCE.cached]
+	], false);
+
+	const approvalRequired = pick<boolean>([
+		[meta?.approvalRequiredForSignup, 'meta', CONFIDENCE.live],
+		[instance?.approval_required, 'instance', CONFIDENCE.live],
+		[joinMeta?.approvalRequiredForSignup, 'joinmisskey', CONFIDENCE.cached]
+	], false);
+
+	const emailRequired = pick<boolean>([
+		[meta?.emailRequiredForSignup, 'meta', CONFIDENCE.live],
+		// Mastodon系は登録時のメールアドレスが常に必須
+		[instance ? true : undefined, 'instance', CONFIDENCE.software],
+		[joinMeta?.emailRequiredForSignup, 'joinmisskey', CONFIDENCE.cached]
+	], false);
+
+	const inviteOnly = classifyInviteOnly(raw, registrationOpen, approvalRequired);
+
+	const rules: Array<{ text: string; source: MetadataSource }> = [
+		...(meta?.serverRules
+			? meta.serverRules.map((text) => ({ text, source: 'meta' as const }))
+			: (joinMeta?.serverRules ?? []).map((text) => ({ text, source: 'joinmisskey' as const }))),
+		...(instance?.rules ?? []).map((r) => ({ text: r.text ?? '', source: 'instance' as const }))
+	];
+	const ageRestriction = classifyAgeRestriction(
+		[
+			...rules.map(({ text, source }, i) => ({ field: 'serverRule' as const, ruleIndex: i + 1, text: stripHtml(text), source })),
+			{ field: 'description', text: stripHtml(description.value ?? ''), source: description.source },
+			{ field: 'name', text: name.value ?? '', source: name.source }
+		],
+		emailRequired
+	);
+
+	const languages = meta?.langs ?? instance?.languages ?? joinMisskey?.langs ?? [];
+
+	const provenance: ServerInfoProvenance = {};
+	const record = (field: ProvenanceField, sourced: Sourced<unknown>) => {
+		provenance[field] = { source: sourced.source, confidence: sourced.confidence };
+	};
+	record('usersCount', usersCount);
+	record('notesCount', notesCount);
+	record('repositoryUrl', repositoryUrl);
+	record('registrationOpen', registrationOpen);
+	record('emailRequired', emailRequired);
+	record('approvalRequired', approvalRequired);
+	record('inviteOnly', inviteOnly);
+	record('ageRestriction', ageRestriction);
+
+	return {
+		host,
+		name: name.value,
+		description: description.value,
+		usersCount: usersCount.value,
+		notesCount: notesCount.value,
+		iconUrl: toAbsoluteUrl(host, meta?.iconUrl ?? instance?.thumbnail ?? joinMisskey?.iconUrl ?? joinMeta?.iconUrl),
+
+		softwareName:
+			(nodeInfo?.software?.name ?? joinNodeInfo?.software?.name)?.toLowerCase() ?? family,
+		softwareVersion:
+			nodeInfo?.software?.version ?? meta?.version ?? instance?.version ??
+			joinNodeInfo?.software?.version ?? joinMeta?.version ?? null,
+		repositoryUrl: repositoryUrl.value,
+		softwareFamily: family,
+		languages,
+
+		registrationOpen: registrationOpen.value,
+		emailRequired: emailRequired.value,
+		approvalRequired: approvalRequired.value,
+		inviteOnly: inviteOnly.value,
+
+		ageRestriction: ageRestriction.value,
+		ageEvidence: ageRestriction.evidence,
+
+		// アクティビティ指標は joinmisskey でのみ取得できる
+		dru15: joinMisskey?.dru15 ?? null,
+		npd15: joinMisskey?.npd15 ?? null,
+
+		provenance
+	};
+}
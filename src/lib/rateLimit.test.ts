@@ -0,0 +1,88 @@
+// 固定ウィンドウでの数え方と、上限を超えたときの 429 の応答を確かめる
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit, createDurableObjectRateLimiter, createMemoryRateLimiter, RATE_LIMITS } from './rateLimit';
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('createMemoryRateLimiter', () => {
+	it('キーごとに上限まで許可し、ウィンドウが過ぎたら数え直す', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(0);
+		const limiter = createMemoryRateLimiter(2, 60);
+
+		expect((await limiter.limit({ key: 'a' })).success).toBe(true);
+		expect((await limiter.limit({ key: 'a' })).success).toBe(true);
+		expect((await limiter.limit({ key: 'a' })).success).toBe(false);
+		// 別のキーは別に数える
+		expect((await limiter.limit({ key: 'b' })).success).toBe(true);
+
+		vi.setSystemTime(60_000);
+		expect((await limiter.limit({ key: 'a' })).success).toBe(true);
+	});
+});
+
+describe('createDurableObjectRateLimiter', () => {
+	it('キーごとの Durable Object に上限を渡して数えさせる', async () => {
+		const objects = new Map<string, RateLimit>();
+		const bodies: unknown[] = [];
+		const namespace: DurableObjectNamespace = {
+			idFromName: (name) => ({ toString: () => name }),
+			get: (id) => ({
+				async fetch(_input, init) {
+					const body = JSON.parse(String(init?.body)) as { key: string; limit: number; periodSeconds: number };
+					bodies.push(body);
+					const key = id.toString();
+					if (!objects.has(key)) objects.set(key, createMemoryRateLimiter(body.limit, body.periodSeconds));
+					return Response.json(await objects.get(key)!.limit({ key: body.key }));
+				}
+			})
+		};
+		const limiter = createDurableObjectRateLimiter(namespace, 1, 60);
+
+		expect((await limiter.limit({ key: 'login:192.0.2.1' })).success).toBe(true);
+		expect((await limiter.limit({ key: 'login:192.0.2.1' })).success).toBe(false);
+		expect((await limiter.limit({ key: 'login:192.0.2.2' })).success).toBe(true);
+		expect(objects.size).toBe(2);
+		expect(bodies[0]).toEqual({ key: 'login:192.0.2.1', limit: 1, periodSeconds: 60 });
+	});
+});
+
+describe('checkRateLimit', () => {
+	it('上限を超えたら Retry-After 付きの 429 を返す', async () => {
+		const event = { platform: undefined, getClientAddress: () => '198.51.100.1' };
+		const { limit, periodSeconds } = RATE_LIMITS.login;
+
+		for (let i = 0; i < limit; i++) {
+			expect(await checkRateLimit(event, 'login')).toBeNull();
+		}
+		const res = await checkRateLimit(event, 'login');
+
+		expect(res?.status).toBe(429);
+		expect(res?.headers.get('Retry-After')).toBe(String(periodSeconds));
+		expect(await res?.json()).toMatchObject({ error: 'RATE_LIMITED' });
+	});
+
+	it('ルートごとに別に数える', async () => {
+		const event = { platform: undefined, getClientAddress: () => '198.51.100.2' };
+
+		for (let i = 0; i < RATE_LIMITS.login.limit; i++) await checkRateLimit(event, 'login');
+
+		expect(await checkRateLimit(event, 'login')).not.toBeNull();
+		expect(await checkRateLimit(event, 'federation')).toBeNull();
+	});
+
+	it('バインディングが失敗してもリクエストは止めない', async () => {
+		const failing = {
+			idFromName: (name: string) => ({ toString: () => name }),
+			get: () => ({ fetch: async () => new Response('error', { status: 500 }) })
+		};
+		const event = { platform: { env: { RATE_LIMITER: failing } }, getClientAddress: () => '198.51.100.3' };
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		expect(await checkRateLimit(event, 'login')).toBeNull();
+	});
+});
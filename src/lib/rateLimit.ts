@@ -0,0 +1,115 @@
+import { json } from '@sveltejs/kit';
+
+// レート制限の対象（ルートごとに上限を分ける）
+export type RateLimitBucket = 'federation' | 'connectivity' | 'connectivityMatrix' | 'login';
+
+// 上限（回数 / 秒）
+export const RATE_LIMITS: Record<RateLimitBucket, { limit: number; periodSeconds: number }> = {
+	federation: { limit: 30, periodSeconds: 60 },
+	// 視点サーバー間の全ペアを一度に確認するため多めにする
+	connectivity: { limit: 120, periodSeconds: 60 },
+	// 一括確認は1回で最大 n(n-1) = 90 方向を問い合わせるため別に厳しくする（1分あたり最大 360 方向）
+	connectivityMatrix: { limit: 4, periodSeconds: 60 },
+	login: { limit: 10, periodSeconds: 60 }
+};
+
+/**
+ * メモリ内の固定ウィンドウ方式のレート制限
+ * 注意: インスタンスごとに数えるため、単体ではローカル開発やバインディングがない環境での代用
+ * （Durable Object の中で使えば、キーごとに1か所で数えられる）
+ */
+export function createMemoryRateLimiter(limit: number, periodSeconds: number): RateLimit {
+	const windows = new Map<string, { count: number; resetAt: number }>();
+
+	return {
+		async limit({ key }) {
+			const now = Date.now();
+			const current = windows.get(key);
+
+			if (!current || current.resetAt <= now) {
+				// 期限切れのものを掃除してから新しいウィンドウを始める
+				for (const [k, w] of windows) {
+					if (w.resetAt <= now) windows.delete(k);
+				}
+				windows.set(key, { count: 1, resetAt: now + periodSeconds * 1000 });
+				return { success: true };
+			}
+
+			current.count++;
+			return { success: current.count <= limit };
+		}
+	};
+}
+
+const memoryLimiters = Object.fromEntries(
+	Object.entries(RATE_LIMITS).map(([bucket, { limit, periodSeconds }]) => [
+		bucket,
+		createMemoryRateLimiter(limit, periodSeconds)
+	])
+) as Record<RateLimitBucket, RateLimit>;
+
+/**
+ * Durable Object（cron/ の Worker の RateLimiterObject）で数えるレート制限
+ * Pages は ratelimit バインディングに対応しないため、キーごとの Durable Object に数えさせて
+ * インスタンスをまたいで上限を守る
+ */
+export function createDurableObjectRateLimiter(
+	namespace: DurableObjectNamespace,
+	limit: number,
+	periodSeconds: number
+): RateLimit {
+	return {
+		async limit({ key }) {
+			const stub = namespace.get(namespace.idFromName(key));
+			const res = await stub.fetch('https://rate-limiter/limit', {
+				method: 'POST',
+				body: JSON.stringify({ key, limit, periodSeconds })
+			});
+			if (!res.ok) throw new Error(`Rate limiter responded ${res.status}`);
+			return (await res.json()) as { success: boolean };
+		}
+	};
+}
+
+/**
+ * 実行環境に応じたレート制限を取得
+ * バインディングがなければメモリ内のもので代用する
+ */
+export function getRateLimiter(platform: App.Platform | undefined, bucket: RateLimitBucket): RateLimit {
+	const namespace = platform?.env?.RATE_LIMITER;
+	if (!namespace) return memoryLimiters[bucket];
+	const { limit, periodSeconds } = RATE_LIMITS[bucket];
+	return createDurableObjectRateLimiter(namespace, limit, periodSeconds);
+}
+
+/**
+ * クライアントごとのレート制限を確認し、超えていれば 429 の応答を返す
+ */
+export async function checkRateLimit(
+	event: { platform: App.Platform | undefined; getClientAddress(): string },
+	bucket: RateLimitBucket
+): Promise<Response | null> {
+	let client: string;
+	try {
+		client = event.getClientAddress();
+	} catch {
+		client = 'unknown';
+	}
+
+	try {
+		const { success } = await getRateLimiter(event.platform, bucket).limit({ key: `${bucket}:${client}` });
+		if (success) return null;
+	} catch (e) {
+		// レート制限自体の失敗ではリクエストを止めない
+		console.error(`Rate limiter failed (${bucket}):`, e);
+		return null;
+	}
+
+	return json(
+		{
+			error: 'RATE_LIMITED',
+			message: 'リクエストが多すぎます。しばらく待ってからもう一度お試しください'
+		},
+		{ status: 429, headers: { 'Retry-After': String(RATE_LIMITS[bucket].periodSeconds) } }
+	);
+}
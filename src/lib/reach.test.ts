@@ -0,0 +1,80 @@
+// サーバーに入った場合のつながりの見積もり（分類の優先順位・向き・根拠の一覧・ユーザー数の割合）を確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { FederationInfo, ServerInfo } from './collector';
+import { estimateReach } from './reach';
+
+function server(host: string, usersCount: number): ServerInfo {
+	return { host, usersCount } as ServerInfo;
+}
+
+function fed(sourceHost: string, targetHost: string, flags: Partial<FederationInfo> = {}): FederationInfo {
+	return { sourceHost, targetHost, usersCount: 0, notesCount: 0, isBlocked: false, isSuspended: false, ...flags };
+}
+
+// me と vp・other が視点サーバー
+const FEDERATIONS: FederationInfo[] = [
+	fed('me.example', 'a.example'),
+	fed('me.example', 'vp.example'),
+	fed('vp.example', 'me.example'),
+	fed('me.example', 'b.example', { isBlocked: true }),
+	fed('me.example', 'd.example'),
+	fed('other.example', 'd.example'),
+	fed('other.example', 'me.example', { isSuspended: true }),
+	fed('vp.example', 'c.example')
+];
+const SERVERS = [
+	server('me.example', 100),
+	server('a.example', 10),
+	server('vp.example', 20),
+	server('c.example', 30),
+	server('d.example', 5)
+];
+
+describe('estimateReach', () => {
+	const reach = estimateReach('me.example', FEDERATIONS, SERVERS, { truncatedHosts: ['vp.example'] });
+
+	it('どちらの一覧にあるかで向きと根拠を返す', () => {
+		expect(reach.entries.federating).toEqual([
+			{ host: 'a.example', status: 'federating', direction: 'outgoing', sources: ['own'], usersCount: 10 },
+			{ host: 'd.example', status: 'federating', direction: 'outgoing', sources: ['own'], usersCount: 5 },
+			{ host: 'vp.example', status: 'federating', direction: 'mutual', sources: ['own', 'others'], usersCount: 20 }
+		]);
+		expect(reach.entries.suspended).toEqual([
+			{ host: 'other.example', status: 'suspended', direction: 'incoming', sources: ['others'], usersCount: null }
+		]);
+	});
+
+	it('ブロックは連合より優先し、どの一覧にも現れないサーバーは不明とする', () => {
+		expect(reach.entries.blocked.map((e) => e.host)).toEqual(['b.example']);
+		expect(reach.entries.unknown).toEqual([
+			{ host: 'c.example', status: 'unknown', direction: null, sources: [], usersCount: 30 }
+		]);
+
+		const blockedBack = estimateReach(
+			'me.example',
+			[...FEDERATIONS, fed('a.example', 'me.example', { isBlocked: true })],
+			SERVERS
+		);
+		expect(blockedBack.entries.blocked).toContainEqual(
+			expect.objectContaining({ host: 'a.example', direction: 'incoming', sources: ['others'] })
+		);
+	});
+
+	it('ユーザー数の割合と、参照した一覧を返す', () => {
+		expect(reach.usersCoverage).toEqual({ federating: 35, total: 65 });
+		expect(reach.hasOwnData).toBe(true);
+		expect(reach.ownDataTruncated).toBe(false);
+		expect(reach.consultedViewpoints).toEqual(['other.example', 'vp.example']);
+	});
+
+	it('一覧を読み込んでいないサーバーでは相手の一覧だけを使う', () => {
+		const other = estimateReach('c.example', FEDERATIONS, SERVERS, { truncatedHosts: ['c.example'] });
+
+		expect(other.hasOwnData).toBe(false);
+		expect(other.ownDataTruncated).toBe(true);
+		expect(other.entries.federating).toEqual([
+			{ host: 'vp.example', status: 'federating', direction: 'incoming', sources: ['others'], usersCount: 20 }
+		]);
+	});
+});
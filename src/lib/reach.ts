@@ -0,0 +1,130 @@
+// 「そのサーバーに入ると、どことつながる？」の見積もり
+// 読み込んだ視点サーバーの連合・ブロック一覧から、既知のサーバーごとの関係を分類する
+// 自サーバーの一覧によるものか、相手（他の視点）の一覧によるものかを区別して返す
+
+import type { FederationInfo, ServerInfo } from './collector';
+
+export type ReachStatus = 'federating' | 'blocked' | 'suspended' | 'unknown';
+
+// outgoing: このサーバーから相手へ / incoming: 相手からこのサーバーへ / mutual: 双方
+export type ReachDirection = 'outgoing' | 'incoming' | 'mutual';
+
+// own: このサーバー自身の一覧 / others: 相手のサーバーの一覧
+export type ReachSource = 'own' | 'others';
+
+export interface ReachEntry {
+	host: string;
+	status: ReachStatus;
+	direction: ReachDirection | null; // unknown のときは null
+	sources: ReachSource[];
+	usersCount: number | null;
+}
+
+export interface ReachEstimate {
+	host: string;
+	hasOwnData: boolean; // このサーバー自身の連合一覧を読み込んでいるか
+	ownDataTruncated: boolean; // 自サーバーの一覧が一部のみ
+	consultedViewpoints: string[]; // 参照した一覧（このサーバー以外の視点サーバー）
+	entries: Record<ReachStatus, ReachEntry[]>;
+	// ユーザー数で重み付けした割合（ユーザー数の分かるサーバーのみ）
+	usersCoverage: { federating: number; total: number };
+}
+
+export const REACH_STATUS_LABELS: Record<ReachStatus, string> = {
+	federating: '連合',
+	blocked: 'ブロック',
+	suspended: '配信停止',
+	unknown: '不明'
+};
+
+interface Relation {
+	outgoing: { federating: boolean; blocked: boolean; suspended: boolean };
+	incoming: { federating: boolean; blocked: boolean; suspended: boolean };
+}
+
+function emptyRelation(): Relation {
+	return {
+		outgoing: { federating: false, blocked: false, suspended: false },
+		incoming: { federating: false, blocked: false, suspended: false }
+	};
+}
+
+function toDirection(outgoing: boolean, incoming: boolean): ReachDirection {
+	return outgoing && incoming ? 'mutual' : outgoing ? 'outgoing' : 'incoming';
+}
+
+/**
+ * サーバーに入った場合のつながりを見積もる
+ * ブロック > 配信停止 > 連合 の順に優先して1つに分類し、どの一覧にも現れないサーバーは不明とする
+ */
+export function estimateReach(
+	host: string,
+	federations: FederationInfo[],
+	servers: ServerInfo[],
+	options: { truncatedHosts?: Iterable<string> } = {}
+): ReachEstimate {
+	const viewpoints = new Set(federations.map((f) => f.sourceHost));
+	const relations = new Map<string, Relation>();
+
+	for (const fed of federations) {
+		let other: string;
+		let side: keyof Relation;
+		if (fed.sourceHost === host) {
+			[other, side] = [fed.targetHost, 'outgoing'];
+		} else if (fed.targetHost === host) {
+			[other, side] = [fed.sourceHost, 'incoming'];
+		} else {
+			continue;
+		}
+		if (other === host) continue;
+
+		const relation = relations.get(other) ?? emptyRelation();
+		if (fed.isBlocked) relation[side].blocked = true;
+		else if (fed.isSuspended) relation[side].suspended = true;
+		else relation[side].federating = true;
+		relations.set(other, relation);
+	}
+
+	const usersOf = new Map(servers.map((s) => [s.host, s.usersCount]));
+	const knownHosts = new Set([...servers.map((s) => s.host), ...relations.keys()]);
+	knownHosts.delete(host);
+
+	const entries: Record<ReachStatus, ReachEntry[]> = { federating: [], blocked: [], suspended: [], unknown: [] };
+	let federatingUsers = 0;
+	let totalUsers = 0;
+
+	for (const other of Array.from(knownHosts).sort()) {
+		const relation = relations.get(other);
+		const usersCount = usersOf.get(other) ?? null;
+		totalUsers += usersCount ?? 0;
+
+		if (!relation) {
+			entries.unknown.push({ host: other, status: 'unknown', direction: null, sources: [], usersCount });
+			continue;
+		}
+
+		const { outgoing, incoming } = relation;
+		const status: ReachStatus =
+			outgoing.blocked || incoming.blocked ? 'blocked'
+			: outgoing.suspended || incoming.suspended ? 'suspended'
+			: 'federating';
+		const out = outgoing[status as Exclude<ReachStatus, 'unknown'>];
+		const inc = incoming[status as Exclude<ReachStatus, 'unknown'>];
+		const sources: ReachSource[] = [];
+		if (out) sources.push('own');
+		if (inc) sources.push('others');
+
+		entries[status].push({ host: other, status, direction: toDirection(out, inc), sources, usersCount });
+		if (status === 'federating') federatingUsers += usersCount ?? 0;
+	}
+
+	const truncated = new Set(options.truncatedHosts ?? []);
+	return {
+		host,
+		hasOwnData: viewpoints.has(host),
+		ownDataTruncated: truncated.has(host),
+		consultedViewpoints: Array.from(viewpoints).filter((vp) => vp !== host).sort(),
+		entries,
+		usersCoverage: { federating: federatingUsers, total: totalUsers }
+	};
+}
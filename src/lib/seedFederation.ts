@@ -0,0 +1,180 @@
+import { deleteAppSecret } from './auth';
+import { formatMisskeyError } from './misskey';
+import { detectFederationSource, misskeySource } from './sources';
+import type { FederationInfo, SoftwareFamily } from './collector';
+import {
+	getFederationCache,
+	getCacheFreshness,
+	revalidateInBackground,
+	type CachedFederation
+} from './federationCache';
+
+// 連合・ブロック・配信停止一覧それぞれの取得件数の上限
+const FEDERATION_LIST_LIMIT = 300;
+
+// 視点サーバーの連合情報を取得できなかった理由
+export interface SeedFederationError {
+	ok: false;
+	status: number; // APIで返すHTTPステータス
+	error: 'CREDENTIAL_REQUIRED' | 'PERMISSION_DENIED' | 'CONNECTION_FAILED' | 'FETCH_FAILED';
+	message: string;
+	authenticated?: boolean;
+}
+
+// 視点サーバーの連合情報（APIの応答とSSRのストリーミングで共通）
+export type SeedFederationResult =
+	| {
+			ok: true;
+			federations: FederationInfo[];
+			softwareFamily: SoftwareFamily;
+			truncated: boolean;
+			fetchedAt: string;
+			authenticated: boolean; // 認証付きで取得したかどうか
+			cached: boolean; // 共有キャッシュから返したかどうか
+	  }
+	| SeedFederationError;
+
+type SeedFederationFetch = { ok: true; data: CachedFederation; authenticated: boolean } | SeedFederationError;
+
+/**
+ * 視点サーバーの連合情報を取得
+ * 未認証のものは共有キャッシュから返し、古くなっていれば裏で取り直す（stale-while-revalidate）
+ * 認証付き（authToken あり）のものは閲覧者ごとに見える範囲が異なるため、キャッシュを読み書きしない
+ */
+export async function getSeedFederation(
+	seedServer: string,
+	options: { platform: App.Platform | undefined; authToken: string | null }
+): Promise<SeedFederationResult> {
+	const { platform, authToken } = options;
+
+	if (authToken) {
+		const result = await fetchSeedFederation(seedServer, authToken);
+		if (!result.ok) return result;
+		return { ok: true, ...result.data, authenticated: result.authenticated, cached: false };
+	}
+
+	const cache = getFederationCache(platform);
+	const entry = await cache.get(seedServer).catch(() => null);
+	const freshness = entry ? getCacheFreshness(entry) : 'expired';
+
+	if (entry && freshness !== 'expired') {
+		// 古くなっていれば返したあとに裏で取り直す
+		if (freshness === 'stale') {
+			const pending = revalidateInBackground(seedServer, async () => {
+				const result = await fetchSeedFederation(seedServer, null);
+				if (result.ok) await cache.put({ host: seedServer, ...result.data });
+			});
+			platform?.context?.waitUntil(pending);
+		}
+		return { ok: true, ...entry, authenticated: false, cached: true };
+	}
+
+	const result = await fetchSeedFederation(seedServer, null);
+	if (!result.ok) return result;
+
+	// 取得に成功したもののみ保存する（失敗しても結果は返す）
+	await cache.put({ host: seedServer, ...result.data }).catch((e) => {
+		console.error('[Seed federation] Failed to write cache:', e);
+	});
+	return { ok: true, ...result.data, authenticated: false, cached: false };
+}
+
+/**
+ * 視点サーバーから連合・ブロック・配信停止一覧を取得
+ */
+async function fetchSeedFederation(seedServer: string, authToken: string | null): Promise<SeedFederationFetch> {
+	// ソフトウェアを判定（判定できない場合は従来どおりMisskeyとして扱う）
+	const detected = await detectFederationSource(seedServer);
+	const source = detected?.source ?? misskeySource;
+	// 認証トークンはMisskeyのセッションのため、Misskey系のみで使用する
+	const token = source.family === 'misskey' ? authToken : null;
+
+	// ページネーションで取得し尽くすまで取得（上限300件、Misskey APIの1回あたりの最大値は30）
+	const listOptions = { token, limit: FEDERATION_LIST_LIMIT, pageSize: 30 };
+	const res = await source.fetchFederationInstances(seedServer, listOptions);
+
+	if (!res.ok) {
+		const { error } = res;
+
+		console.error(`[Seed federation] Failed to fetch ${seedServer}${token ? ' (authenticated)' : ''}:`, formatMisskeyError(error));
+
+		if (error.kind === 'CREDENTIAL_REQUIRED') {
+			// 認証トークンを送ったのにまだCREDENTIAL_REQUIREDなら、権限不足
+			const message = token
+				? `${seedServer} の連合情報を閲覧する権限がありません（管理者権限が必要な場合があります）`
+				: `${seedServer} は連合情報を公開していません（認証が必要）`;
+			return {
+				ok: false,
+				status: 403,
+				error: 'CREDENTIAL_REQUIRED',
+				message,
+				authenticated: !!token
+			};
+		}
+
+		if (error.kind === 'PERMISSION_DENIED') {
+			// アプリの権限不足 → キャッシュをクリアして再認証を促す
+			deleteAppSecret(seedServer);
+			return {
+				ok: false,
+				status: 403,
+				error: 'PERMISSION_DENIED',
+				message: `アプリの権限が不足しています。一度ログアウトして再度ログインしてください。`,
+				authenticated: !!token
+			};
+		}
+
+		if (error.kind === 'TIMEOUT' || error.kind === 'NETWORK_ERROR') {
+			return {
+				ok: false,
+				status: 502,
+				error: 'CONNECTION_FAILED',
+				message: `${seedServer} への接続に失敗しました`
+			};
+		}
+
+		return {
+			ok: false,
+			status: error.status,
+			error: 'FETCH_FAILED',
+			message: `${seedServer} から連合情報を取得できませんでした (${error.status})`
+		};
+	}
+
+	// 正常な連合関係
+	const normalFederations: FederationInfo[] = res.data.instances
+		.filter((inst) => !inst.isBlocked && !inst.isSuspended)
+		.map((inst) => ({
+			sourceHost: seedServer,
+			targetHost: inst.host,
+			usersCount: inst.usersCount,
+			notesCount: inst.notesCount,
+			isBlocked: false,
+			isSuspended: false
+		}));
+
+	// ブロック・配信停止関係も取得（失敗しても続行）
+	const blockedRes = await source.fetchBlockedInstances(seedServer, listOptions, detected?.nodeInfo);
+	const blockedFederations: FederationInfo[] = blockedRes.ok
+		? blockedRes.data.instances.map((inst) => ({
+				sourceHost: seedServer,
+				targetHost: inst.host,
+				usersCount: inst.usersCount,
+				notesCount: inst.notesCount,
+				isBlocked: inst.isBlocked,
+				isSuspended: inst.isSuspended
+			}))
+		: [];
+
+	return {
+		ok: true,
+		data: {
+			fetchedAt: new Date().toISOString(),
+			federations: [...normalFederations, ...blockedFederations],
+			softwareFamily: source.family,
+			// 上限に達した・途中で失敗したなどで一覧の一部のみの場合（ブロック一覧の非公開は含めない）
+			truncated: res.data.truncated || (blockedRes.ok && blockedRes.data.truncated)
+		},
+		authenticated: !!token // 認証付きで取得したかどうか
+	};
+}
@@ -0,0 +1,64 @@
+// 連合先の重なりによる似ているサーバーの探索（Jaccard・重み付きコサイン、候補・件数の絞り込み）を確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { FederationInfo } from './collector';
+import { findSimilarServers } from './similarity';
+
+function fed(sourceHost: string, targetHost: string, flags: Partial<FederationInfo> = {}): FederationInfo {
+	return { sourceHost, targetHost, usersCount: 0, notesCount: 0, isBlocked: false, isSuspended: false, ...flags };
+}
+
+// me の連合先は x・y・z、p は x・y、q は z・w
+const FEDERATIONS: FederationInfo[] = [
+	fed('me.example', 'x.example'),
+	fed('me.example', 'y.example'),
+	fed('me.example', 'z.example'),
+	fed('p.example', 'x.example'),
+	fed('p.example', 'y.example'),
+	fed('q.example', 'z.example'),
+	fed('q.example', 'w.example'),
+	// ブロック先の重なりは数えない
+	fed('me.example', 'bad.example', { isBlocked: true }),
+	fed('r.example', 'bad.example')
+];
+
+describe('findSimilarServers', () => {
+	it('Jaccard は連合先の集合の重なりで比べる', () => {
+		expect(findSimilarServers('me.example', FEDERATIONS, { measure: 'jaccard' })).toEqual([
+			{ host: 'p.example', score: 2 / 3, sharedPartners: 2, partnersCount: 2 },
+			{ host: 'q.example', score: 1 / 4, sharedPartners: 1, partnersCount: 2 }
+		]);
+	});
+
+	it('重みが同じならコサインは共通の数 / ノルムの積になる', () => {
+		const result = findSimilarServers('me.example', FEDERATIONS);
+
+		expect(result.map((s) => s.host)).toEqual(['p.example', 'q.example']);
+		expect(result[0].score).toBeCloseTo(2 / Math.sqrt(6));
+		expect(result[1].score).toBeCloseTo(1 / Math.sqrt(6));
+	});
+
+	it('コサインは活発な連合先を共有するサーバーを高くする', () => {
+		const federations = [
+			fed('me.example', 'busy.example', { usersCount: 1000 }),
+			fed('me.example', 'quiet.example'),
+			fed('s.example', 'busy.example', { usersCount: 1000 }),
+			fed('t.example', 'quiet.example')
+		];
+
+		const cosine = findSimilarServers('me.example', federations);
+		const jaccard = findSimilarServers('me.example', federations, { measure: 'jaccard' });
+
+		expect(cosine[0].host).toBe('s.example');
+		expect(cosine[0].score).toBeGreaterThan(cosine[1].score);
+		expect(jaccard[0].score).toBe(jaccard[1].score);
+	});
+
+	it('候補と件数で絞り込み、連合先がなければ空を返す', () => {
+		expect(
+			findSimilarServers('me.example', FEDERATIONS, { candidates: new Set(['q.example']) }).map((s) => s.host)
+		).toEqual(['q.example']);
+		expect(findSimilarServers('me.example', FEDERATIONS, { limit: 1 }).map((s) => s.host)).toEqual(['p.example']);
+		expect(findSimilarServers('unknown.example', FEDERATIONS)).toEqual([]);
+	});
+});
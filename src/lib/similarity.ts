@@ -0,0 +1,79 @@
+// 連合先の似ているサーバー
+// 読み込んだ視点サーバーの一覧から各サーバーの連合先を集め、連合先どうしの重なりで比べる
+// 構造の近さを見るためのもので、おすすめ順や評価を表すものではない
+
+import type { FederationInfo } from './collector';
+
+// cosine: 活発さで重み付けしたコサイン類似度 / jaccard: 連合先の集合の Jaccard 係数
+export type SimilarityMeasure = 'cosine' | 'jaccard';
+
+export const SIMILARITY_LABELS: Record<SimilarityMeasure, string> = {
+	cosine: '重み付き（コサイン）',
+	jaccard: '重みなし（Jaccard）'
+};
+
+export interface SimilarServer {
+	host: string;
+	score: number; // 0〜1
+	sharedPartners: number; // 共通の連合先の数
+	partnersCount: number; // 相手の連合先の数
+}
+
+/**
+ * 連合先の重なりが大きいサーバーを探す
+ * ブロック・配信停止は連合先に含めない。重みはグラフのエッジの太さと同じ活発さを対数で縮めたもの
+ */
+export function findSimilarServers(
+	host: string,
+	federations: FederationInfo[],
+	options: { measure?: SimilarityMeasure; candidates?: Set<string>; limit?: number } = {}
+): SimilarServer[] {
+	const { measure = 'cosine', candidates, limit = 8 } = options;
+
+	// ホスト → 連合先 → 重み（向きは区別せず、同じ組は最大の活発さを使う）
+	const neighbours = new Map<string, Map<string, number>>();
+	const link = (a: string, b: string, weight: number) => {
+		let map = neighbours.get(a);
+		if (!map) neighbours.set(a, (map = new Map()));
+		map.set(b, Math.max(map.get(b) ?? 0, weight));
+	};
+	for (const fed of federations) {
+		if (fed.isBlocked || fed.isSuspended || fed.sourceHost === fed.targetHost) continue;
+		const weight = 1 + Math.log1p(fed.usersCount + fed.notesCount / 10);
+		link(fed.sourceHost, fed.targetHost, weight);
+		link(fed.targetHost, fed.sourceHost, weight);
+	}
+
+	const own = neighbours.get(host);
+	if (!own || own.size === 0) return [];
+
+	const weightOf = (value: number) => (measure === 'cosine' ? value : 1);
+	const norm = (map: Map<string, number>) =>
+		Math.sqrt(Array.from(map.values()).reduce((sum, value) => sum + weightOf(value) ** 2, 0));
+	const ownNorm = norm(own);
+
+	const results: SimilarServer[] = [];
+	for (const [other, partners] of neighbours) {
+		if (other === host || (candidates && !candidates.has(other))) continue;
+
+		let shared = 0;
+		let dot = 0;
+		for (const [partner, weight] of partners) {
+			const ownWeight = own.get(partner);
+			if (ownWeight === undefined) continue;
+			shared++;
+			dot += weightOf(weight) * weightOf(ownWeight);
+		}
+		if (shared === 0) continue;
+
+		const score =
+			measure === 'cosine'
+				? Math.min(1, dot / (ownNorm * norm(partners)))
+				: shared / (own.size + partners.size - shared);
+		results.push({ host: other, score, sharedPartners: shared, partnersCount: partners.size });
+	}
+
+	return results
+		.sort((a, b) => b.score - a.score || (a.host < b.host ? -1 : a.host > b.host ? 1 : 0))
+		.slice(0, limit);
+}
@@ -0,0 +1,142 @@
+import type { ServerInfo, FederationInfo } from './collector';
+import type { ViewpointCoverage } from './viewpointCoverage';
+
+// 多段クロールの結果
+export interface CrawlStats {
+	visitedHosts: number; // 問い合わせたサーバー数
+	respondedHosts: number; // 連合情報を取得できたサーバー数
+	discoveredHosts: number; // joinmisskey 以外から追加したサーバー数（Mastodon など）
+	maxDepth: number; // 種サーバーからたどった階層数
+	budgetExhausted: boolean; // クロール予算に達して打ち切ったか
+	subrequests?: number; // 送ったリクエスト数（再試行・ページングを含む。導入前のスナップショットにはない）
+}
+
+// 基準ごとのトップ候補（連合情報が取得できたもののみ）
+export interface TopServers {
+	dru15: string[];
+	npd15: string[];
+	users: string[];
+}
+
+// 定期クロールで作成する連合スナップショット
+export interface FederationSnapshot {
+	fetchedAt: string; // 取得日時（ISO 8601）
+	servers: ServerInfo[];
+	federations: FederationInfo[];
+	// 各基準のトップ候補（連合情報が取得できたもののみ）
+	topByDru15: string[];
+	topByNpd15: string[];
+	topByUsers: string[];
+	// 言語ごとのトップ候補（言語圏の選択に対応する前のスナップショットにはない）
+	topByLanguage?: Record<string, TopServers>;
+	// 言語ごとの網羅性を重視した視点サーバー（導入前のスナップショットにはない）
+	coverageByLanguage?: Record<string, ViewpointCoverage>;
+	// 連合・ブロック一覧を上限や失敗で打ち切ったサーバー（一部のみの関係になっている）
+	truncatedHosts?: string[];
+	crawlStats?: CrawlStats; // 多段クロール導入前のスナップショットにはない
+}
+
+// スナップショットの保存先
+// 最新のものに加え、日付（YYYY-MM-DD）ごとに1件を履歴として保持する
+export interface SnapshotStore {
+	getLatest(): Promise<FederationSnapshot | null>;
+	getByDate(date: string): Promise<FederationSnapshot | null>;
+	listDates(): Promise<string[]>; // 古い順
+	put(snapshot: FederationSnapshot): Promise<void>;
+}
+
+const LATEST_KEY = 'snapshot:latest';
+const INDEX_KEY = 'snapshot:index';
+// 履歴の保持日数（これより古い日付は削除）
+const HISTORY_RETENTION_DAYS = 180;
+
+/**
+ * 取得日時からスナップショットの日付キー（UTCのYYYY-MM-DD）を得る
+ */
+export function getSnapshotDate(fetchedAt: string): string {
+	return new Date(fetchedAt).toISOString().slice(0, 10);
+}
+
+function dateKey(date: string): string {
+	return `snapshot:${date}`;
+}
+
+// 日付一覧に追加し、保持期間を超えたものを分離する
+function updateIndex(dates: string[], date: string): { kept: string[]; expired: string[] } {
+	const all = Array.from(new Set([...dates, date])).sort();
+	const expired = all.slice(0, Math.max(0, all.length - HISTORY_RETENTION_DAYS));
+	return { kept: all.slice(expired.length), expired };
+}
+
+/**
+ * Cloudflare KV をバックエンドにしたスナップショットストア
+ */
+export function createKvSnapshotStore(kv: KVNamespace): SnapshotStore {
+	return {
+		async getLatest() {
+			return (await kv.get(LATEST_KEY, 'json')) as FederationSnapshot | null;
+		},
+		async getByDate(date) {
+			return (await kv.get(dateKey(date), 'json')) as FederationSnapshot | null;
+		},
+		async listDates() {
+			return ((await kv.get(INDEX_KEY, 'json')) as string[] | null) ?? [];
+		},
+		async put(snapshot) {
+			const date = getSnapshotDate(snapshot.fetchedAt);
+			const body = JSON.stringify(snapshot);
+			const { kept, expired } = updateIndex(await this.listDates(), date);
+
+			await Promise.all([
+				kv.put(LATEST_KEY, body),
+				kv.put(dateKey(date), body),
+				kv.put(INDEX_KEY, JSON.stringify(kept)),
+				...expired.map((d) => kv.delete(dateKey(d)))
+			]);
+		}
+	};
+}
+
+// ローカル開発用のメモリ内ストア
+// 注意: サーバー再起動で失われる
+const memorySnapshots = new Map<string, FederationSnapshot>();
+
+export const memorySnapshotStore: SnapshotStore = {
+	async getLatest() {
+		return memorySnapshots.get(LATEST_KEY) ?? null;
+	},
+	async getByDate(date) {
+		return memorySnapshots.get(dateKey(date)) ?? null;
+	},
+	async listDates() {
+		return Array.from(memorySnapshots.keys())
+			.filter((key) => key !== LATEST_KEY)
+			.map((key) => key.slice('snapshot:'.length))
+			.sort();
+	},
+	async put(snapshot) {
+		const date = getSnapshotDate(snapshot.fetchedAt);
+		const { expired } = updateIndex(await this.listDates(), date);
+		memorySnapshots.set(LATEST_KEY, snapshot);
+		memorySnapshots.set(dateKey(date), snapshot);
+		for (const d of expired) {
+			memorySnapshots.delete(dateKey(d));
+		}
+	}
+};
+
+/**
+ * 実行環境に応じたスナップショットストアを取得
+ * KVバインディングがなければメモリ内ストアで代用する
+ */
+export function getSnapshotStore(platform: App.Platform | undefined): SnapshotStore {
+	const kv = platform?.env?.MISSMAP_KV;
+	return kv ? createKvSnapshotStore(kv) : memorySnapshotStore;
+}
+
+/**
+ * スナップショットの経過時間（ミリ秒）
+ */
+export function getSnapshotAge(snapshot: Pick<FederationSnapshot, 'fetchedAt'>, now: number = Date.now()): number {
+	return Math.max(0, now - new Date(snapshot.fetchedAt).getTime());
+}
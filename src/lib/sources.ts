@@ -0,0 +1,306 @@
+// ソフトウェアごとの連合情報の取得元（アダプター）
+// Misskey と Mastodon 互換 API（Mastodon / Pleroma・Akkoma / GoToSocial）の差を吸収し、
+// ServerInfo と FederationInstance の共通の形に正規化する
+
+import type { ServerInfo, FederationInstance, SoftwareFamily } from './collector';
+import {
+	misskeyApi,
+	misskeyPaginate,
+	requestJson,
+	type MisskeyRequestOptions,
+	type MisskeyPaginateOptions,
+	type MisskeyResult
+} from './misskey';
+import { normalizeServerInfo, type NodeInfo, type MisskeyMeta, type MastodonInstance } from './normalizer';
+import { getFamilySoftwareNames } from './forks';
+
+export type { NodeInfo } from './normalizer';
+
+// アダプターが返すサーバー情報（言語はクロール対象の判定に使う）
+export interface SourceServerInfo {
+	info: ServerInfo;
+	languages: string[];
+}
+
+// limit はページングに対応するもののみ（それ以外は一度に全件を取得する）
+export type FederationQueryOptions = MisskeyPaginateOptions;
+
+// 連合先の一覧（上限到達や途中の失敗で一部のみの場合は truncated）
+export interface FederationListing {
+	instances: FederationInstance[];
+	truncated: boolean;
+}
+
+export interface FederationSource {
+	family: SoftwareFamily;
+	// NodeInfo の software.name のうちこのアダプターで扱うもの
+	softwareNames: string[];
+	fetchServerInfo(
+		host: string,
+		nodeInfo: NodeInfo | null,
+		options?: MisskeyRequestOptions
+	): Promise<SourceServerInfo | null>;
+	// 連合しているサーバー（ブロック・配信停止を含む場合がある）
+	fetchFederationInstances(
+		host: string,
+		options?: FederationQueryOptions
+	): Promise<MisskeyResult<FederationListing>>;
+	// ブロック・配信停止しているサーバー
+	fetchBlockedInstances(
+		host: string,
+		options?: FederationQueryOptions,
+		nodeInfo?: NodeInfo | null
+	): Promise<MisskeyResult<FederationListing>>;
+}
+
+/**
+ * NodeInfo を取得する
+ */
+export async function fetchNodeInfo(host: string, options: MisskeyRequestOptions = {}): Promise<NodeInfo | null> {
+	// まず well-known から NodeInfo URL を取得
+	const wellKnown = await requestJson<{ links?: Array<{ rel: string; href: string }> }>(
+		`https://${host}/.well-known/nodeinfo`,
+		{},
+		options
+	);
+	if (!wellKnown.ok) return null;
+
+	const nodeInfoUrl = wellKnown.data?.links?.find((l) => l.rel.includes('nodeinfo'))?.href;
+	if (!nodeInfoUrl) return null;
+
+	const nodeInfo = await requestJson<NodeInfo>(nodeInfoUrl, {}, options);
+	return nodeInfo.ok ? nodeInfo.data : null;
+}
+
+// ========== Misskey ==========
+
+interface MisskeyFederationInstance {
+	host: string;
+	usersCount?: number;
+	notesCount?: number;
+	isBlocked?: boolean;
+	isSuspended?: boolean;
+}
+
+function fromMisskeyInstance(inst: MisskeyFederationInstance, blocked: boolean = false): FederationInstance {
+	return {
+		host: inst.host,
+		isBlocked: inst.isBlocked ?? blocked,
+		isSuspended: inst.isSuspended ?? false,
+		usersCount: inst.usersCount ?? 0,
+		notesCount: inst.notesCount ?? 0
+	};
+}
+
+export const misskeySource: FederationSource = {
+	family: 'misskey',
+	// Misskey API 互換のフォークを含む（forks.ts の registry から）
+	softwareNames: getFamilySoftwareNames('misskey'),
+
+	async fetchServerInfo(host, nodeInfo, options = {}) {
+		const res = await misskeyApi<MisskeyMeta>(host, 'meta', {}, options);
+		if (!res.ok) return null;
+
+		const info = normalizeServerInfo(host, 'misskey', { nodeInfo, meta: res.data });
+		return { info, languages: info.languages ?? [] };
+	},
+
+	async fetchFederationInstances(host, options = {}) {
+		const res = await misskeyPaginate<MisskeyFederationInstance>(
+			host,
+			'federation/instances',
+			{ sort: '+pubSub' },
+			{ limit: 100, ...options }
+		);
+		if (!res.ok) return res;
+		return {
+			ok: true,
+			status: res.status,
+			data: { instances: res.data.items.map((inst) => fromMisskeyInstance(inst)), truncated: res.data.truncated }
+		};
+	},
+
+	// ブロック一覧と配信停止一覧をそれぞれページングで取得してまとめる
+	async fetchBlockedInstances(host, options = {}) {
+		const [blocked, suspended] = await Promise.all([
+			misskeyPaginate<MisskeyFederationInstance>(host, 'federation/instances', { blocked: true }, options),
+			misskeyPaginate<MisskeyFederationInstance>(host, 'federation/instances', { suspended: true }, options)
+		]);
+		if (!blocked.ok && !suspended.ok) return blocked;
+
+		const instances = new Map<string, FederationInstance>();
+		const add = (inst: MisskeyFederationInstance, flags: Partial<FederationInstance>) => {
+			const existing = instances.get(inst.host);
+			const next = { ...fromMisskeyInstance(inst), ...flags };
+			instances.set(inst.host, existing
+				? { ...existing, isBlocked: existing.isBlocked || next.isBlocked, isSuspended: existing.isSuspended || next.isSuspended }
+				: next);
+		};
+		if (blocked.ok) blocked.data.items.forEach((inst) => add(inst, { isBlocked: true }));
+		if (suspended.ok) suspended.data.items.forEach((inst) => add(inst, { isSuspended: true }));
+
+		return {
+			ok: true,
+			status: blocked.ok ? blocked.status : suspended.ok ? suspended.status : 200,
+			data: {
+				instances: Array.from(instances.values()),
+				// 片方の取得に失敗した場合も一部のみとして扱う
+				truncated: !blocked.ok || !suspended.ok || blocked.data.truncated || suspended.data.truncated
+			}
+		};
+	}
+};
+
+// ========== Mastodon 互換 ==========
+
+// GET /api/v1/instance/domain_blocks
+interface MastodonDomainBlock {
+	domain: string;
+	severity: 'silence' | 'suspend' | 'noop';
+}
+
+// 連合一覧（peers）は相手のホスト名のみで、やり取り量は取得できない
+function fromPeer(host: string): FederationInstance {
+	return { host, isBlocked: false, isSuspended: false, usersCount: 0, notesCount: 0 };
+}
+
+function fromBlockedDomain(domain: string): FederationInstance {
+	return { host: domain, isBlocked: true, isSuspended: false, usersCount: 0, notesCount: 0 };
+}
+
+// 一部を伏せ字にしたドメイン（例: "ex***le.com"）は特定できないため除外
+function isObfuscatedDomain(domain: string): boolean {
+	return domain.includes('*');
+}
+
+async function fetchMastodonServerInfo(
+	family: SoftwareFamily,
+	defaultRepositoryUrl: string,
+	host: string,
+	nodeInfo: NodeInfo | null,
+	options: MisskeyRequestOptions
+): Promise<SourceServerInfo | null> {
+	const res = await requestJson<MastodonInstance>(`https://${host}/api/v1/instance`, {}, options);
+	if (!res.ok) return null;
+
+	const info = normalizeServerInfo(host, family, { nodeInfo, instance: res.data }, defaultRepositoryUrl);
+	return { info, languages: info.languages ?? [] };
+}
+
+// peers・ドメインブロックは一度に全件が返る
+async function fetchPeers(host: string, options: MisskeyRequestOptions): Promise<MisskeyResult<FederationListing>> {
+	const res = await requestJson<string[]>(`https://${host}/api/v1/instance/peers`, {}, options);
+	if (!res.ok) return res;
+	return { ok: true, status: res.status, data: { instances: (res.data ?? []).map(fromPeer), truncated: false } };
+}
+
+/**
+ * Mastodon 互換 API（/api/v1/instance, /peers, /domain_blocks）のアダプターを作成
+ */
+function createMastodonCompatibleSource(family: SoftwareFamily, defaultRepositoryUrl: string): FederationSource {
+	return {
+		family,
+		softwareNames: getFamilySoftwareNames(family),
+
+		fetchServerInfo(host, nodeInfo, options = {}) {
+			return fetchMastodonServerInfo(family, defaultRepositoryUrl, host, nodeInfo, options);
+		},
+
+		fetchFederationInstances(host, options = {}) {
+			return fetchPeers(host, options);
+		},
+
+		// 公開されたドメインブロック一覧（非公開の場合はエラー）
+		// silence（サイレンス）は連合自体は続くため、suspend（停止）のみをブロックとして扱う
+		async fetchBlockedInstances(host, options = {}) {
+			const res = await requestJson<MastodonDomainBlock[]>(
+				`https://${host}/api/v1/instance/domain_blocks`,
+				{},
+				options
+			);
+			if (!res.ok) return res;
+			return {
+				ok: true,
+				status: res.status,
+				data: {
+					instances: (res.data ?? [])
+						.filter((block) => block.severity === 'suspend' && !isObfuscatedDomain(block.domain))
+						.map((block) => fromBlockedDomain(block.domain)),
+					truncated: false
+				}
+			};
+		}
+	};
+}
+
+export const mastodonSource = createMastodonCompatibleSource(
+	'mastodon',
+	'https://github.com/mastodon/mastodon'
+);
+
+export const gotosocialSource = createMastodonCompatibleSource(
+	'gotosocial',
+	'https://github.com/superseriousbusiness/gotosocial'
+);
+
+// Pleroma/Akkoma はドメインブロックを NodeInfo の MRF 設定として公開する
+const pleromaBase = createMastodonCompatibleSource(
+	'pleroma',
+	'https://git.pleroma.social/pleroma/pleroma'
+);
+
+export const pleromaSource: FederationSource = {
+	...pleromaBase,
+
+	async fetchBlockedInstances(host, options = {}, nodeInfo) {
+		const info = nodeInfo ?? (await fetchNodeInfo(host, options));
+		const federation = info?.metadata?.federation as { mrf_simple?: { reject?: unknown } } | undefined;
+		const reject = federation?.mrf_simple?.reject;
+		if (!Array.isArray(reject)) {
+			// MRF の公開（transparency）が無効
+			return { ok: false, error: { kind: 'API_ERROR', status: 404, code: null, message: 'MRF is not public' } };
+		}
+		return {
+			ok: true,
+			status: 200,
+			data: {
+				instances: reject
+					.filter((domain): domain is string => typeof domain === 'string' && !isObfuscatedDomain(domain))
+					.map(fromBlockedDomain),
+				truncated: false
+			}
+		};
+	}
+};
+
+export const FEDERATION_SOURCES: FederationSource[] = [misskeySource, mastodonSource, pleromaSource, gotosocialSource];
+
+/**
+ * ソフトウェア系統に対応するアダプターを取得
+ */
+export function getFederationSource(family: SoftwareFamily): FederationSource {
+	return FEDERATION_SOURCES.find((source) => source.family === family) ?? misskeySource;
+}
+
+/**
+ * NodeInfo の software.name に対応するアダプターを取得（未対応なら null）
+ */
+export function findFederationSource(softwareName: string): FederationSource | null {
+	const name = softwareName.toLowerCase();
+	return FEDERATION_SOURCES.find((source) => source.softwareNames.includes(name)) ?? null;
+}
+
+/**
+ * NodeInfo からサーバーのソフトウェアを判定し、対応するアダプターを得る
+ */
+export async function detectFederationSource(
+	host: string,
+	options: MisskeyRequestOptions = {}
+): Promise<{ source: FederationSource; nodeInfo: NodeInfo } | null> {
+	const nodeInfo = await fetchNodeInfo(host, options);
+	const name = nodeInfo?.software?.name;
+	if (!nodeInfo || !name) return null;
+
+	const source = findFederationSource(name);
+	return source ? { source, nodeInfo } : null;
+}
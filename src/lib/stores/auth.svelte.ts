@@ -50,8 +50,8 @@ export async function startLogin(host: string): Promise<{ success: boolean; url?
 			return { success: false, error: data.error };
 		}
 
-		// ホストを保存（コールバックで使用）
-		localStorage.setItem('missmap_auth_host', host);
+		// 正規化後のホストを保存（コールバックで使用）
+		localStorage.setItem('missmap_auth_host', data.host ?? host);
 
 		return { success: true, url: data.url };
 	} catch {
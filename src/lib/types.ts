@@ -1,3 +1,6 @@
+import type { CentralityMetric } from './centrality';
+import type { GraphLayout } from './layout';
+
 export type AgeRestriction = 'all' | '13+' | '18+' | 'unknown';
 export type ServerScale = 'large' | 'medium' | 'small';
 
@@ -24,7 +27,22 @@ export const DEFAULT_EDGE_VISIBILITY: EdgeVisibility = {
 	showConnectivityNg: true
 };
 
+// 対象とする言語圏（定期クロールで収集している言語）
+export const SCOPE_LANGUAGES = ['ja', 'ko', 'en'] as const;
+export type ScopeLanguage = (typeof SCOPE_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGES: ScopeLanguage[] = ['ja'];
+
+// ノードの色分け
+export type ColorBy = 'software' | 'community';
+
+// ノードの大きさ（ユーザー数 / グラフ上の指標）
+export type SizeBy = 'users' | CentralityMetric;
+
 export interface ServerFilter {
+	// 言語圏（複数選択可能、空ならすべて）
+	languages: ScopeLanguage[];
+
 	// 新規登録（複数選択可能）
 	registrationStatus: RegistrationStatus[];
 
@@ -34,38 +52,57 @@ export interface ServerFilter {
 	// 年齢制限
 	ageRestriction: AgeRestriction | null;
 
-	// リポジトリURL（複数選択可能）
-	repositoryUrls: string[];
+	// 年齢制限をサーバーが明記しているもののみ（推測による判定を除外）
+	statedAgeOnly: boolean;
+
+	// ソフトウェア（forks.ts の id、複数選択可能）
+	software: string[];
 
 	// 規模
 	scale: ServerScale[];
 
 	// エッジ表示設定
 	edgeVisibility: EdgeVisibility;
+
+	// ノードの色分け（ソフトウェア / コミュニティ）
+	colorBy: ColorBy;
+
+	// ノードの大きさ
+	sizeBy: SizeBy;
 }
 
 export const DEFAULT_FILTER: ServerFilter = {
+	languages: [...DEFAULT_LANGUAGES],
 	registrationStatus: [],
 	emailRequirement: null,
 	ageRestriction: null,
-	repositoryUrls: [],
+	statedAgeOnly: false,
+	software: [],
 	scale: [],
-	edgeVisibility: { ...DEFAULT_EDGE_VISIBILITY }
+	edgeVisibility: { ...DEFAULT_EDGE_VISIBILITY },
+	colorBy: 'software',
+	sizeBy: 'users'
 };
 
 // 視点サーバーの選定基準
-export type ViewpointCriteria = 'dru15' | 'npd15' | 'users';
+// coverage: 連合一覧を合わせて既知のサーバーを最も多く含む組み合わせ
+export type ViewpointCriteria = 'dru15' | 'npd15' | 'users' | 'coverage';
+
+// スナップショットにない視点サーバーの連合情報の取得状況
+export type SeedLoadStatus = 'loading' | 'loaded' | 'failed' | 'private';
 
 export interface UserSettings {
 	viewpointServers: string[]; // 視点サーバーのリスト
 	viewpointCriteria: ViewpointCriteria; // デフォルト視点の選定基準
 	bookmarks: string[]; // お気に入りサーバーのリスト
+	layout: GraphLayout; // グラフの配置方法
 }
 
 export const DEFAULT_SETTINGS: UserSettings = {
 	viewpointServers: ['misskey.io'],
 	viewpointCriteria: 'dru15',
-	bookmarks: []
+	bookmarks: [],
+	layout: 'cose'
 };
 
 // ========== 認証関連 ==========
@@ -97,4 +134,5 @@ export interface PersistedSettings {
 	viewpointCriteria: ViewpointCriteria;
 	edgeVisibility: EdgeVisibility;
 	bookmarks: string[];
+	layout: GraphLayout;
 }
@@ -0,0 +1,55 @@
+// 網羅性を重視した視点サーバーの選定（貪欲法・同点時の順序・打ち切り）と網羅数の計算を確かめる
+
+import { describe, expect, it } from 'vitest';
+import type { FederationInfo } from './collector';
+import { measureViewpointCoverage, selectCoverageViewpoints } from './viewpointCoverage';
+
+function fed(sourceHost: string, targetHost: string): FederationInfo {
+	return { sourceHost, targetHost, usersCount: 0, notesCount: 0, isBlocked: false, isSuspended: false };
+}
+
+// big1・big2 はほぼ同じ相手と連合し、niche だけが別の界隈とつながっている
+const FEDERATIONS: FederationInfo[] = [
+	...['h1', 'h2', 'h3', 'h4'].map((h) => fed('big1.example', `${h}.example`)),
+	...['h1', 'h2', 'h3', 'h4', 'big1'].map((h) => fed('big2.example', `${h}.example`)),
+	...['h5', 'h6', 's1'].map((h) => fed('niche.example', `${h}.example`)),
+	// 既知でないサーバーは数えない
+	fed('niche.example', 'outside.example')
+];
+const KNOWN = [
+	'big1.example',
+	'big2.example',
+	'niche.example',
+	...['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 's1', 'lonely'].map((h) => `${h}.example`)
+];
+
+describe('selectCoverageViewpoints', () => {
+	it('重なりの大きい上位どうしより、新しく含むサーバーの多い組み合わせを選ぶ', () => {
+		expect(selectCoverageViewpoints(FEDERATIONS, KNOWN)).toEqual({
+			hosts: ['big2.example', 'niche.example'],
+			covered: 10,
+			total: 11
+		});
+	});
+
+	it('指定した数で打ち切る', () => {
+		expect(selectCoverageViewpoints(FEDERATIONS, KNOWN, 1).hosts).toEqual(['big2.example']);
+	});
+
+	it('増える数が同じならホスト名順で選ぶ', () => {
+		const federations = [fed('b.example', 'x.example'), fed('a.example', 'y.example')];
+		const known = ['a.example', 'b.example', 'x.example', 'y.example'];
+
+		expect(selectCoverageViewpoints(federations, known).hosts).toEqual(['a.example', 'b.example']);
+	});
+});
+
+describe('measureViewpointCoverage', () => {
+	it('視点サーバー自身と、その一覧に現れる既知のサーバーを数える', () => {
+		expect(measureViewpointCoverage(['big1.example', 'big2.example', 'gone.example'], FEDERATIONS, KNOWN)).toEqual({
+			hosts: ['big1.example', 'big2.example', 'gone.example'],
+			covered: 6,
+			total: 11
+		});
+	});
+});
@@ -0,0 +1,73 @@
+// 網羅性を重視した視点サーバーの選定
+// 上位のサーバーは同じ大規模サーバーと連合していることが多いため、
+// 連合一覧を合わせたときに既知のサーバーをより多く含む組み合わせを貪欲法で選ぶ
+
+import type { FederationInfo } from './collector';
+
+export interface ViewpointCoverage {
+	hosts: string[]; // 視点サーバー（選んだ順）
+	covered: number; // 視点サーバー自身と連合一覧に現れる既知のサーバーの数
+	total: number; // 既知のサーバーの数
+}
+
+// 視点サーバーごとの、一覧に現れる既知のサーバー（自身を含む）
+function coveredSets(federations: FederationInfo[], known: Set<string>): Map<string, Set<string>> {
+	const sets = new Map<string, Set<string>>();
+	for (const fed of federations) {
+		if (!known.has(fed.sourceHost)) continue;
+		let set = sets.get(fed.sourceHost);
+		if (!set) sets.set(fed.sourceHost, (set = new Set([fed.sourceHost])));
+		if (known.has(fed.targetHost)) set.add(fed.targetHost);
+	}
+	return sets;
+}
+
+/**
+ * 既知のサーバーを最も多く含むように視点サーバーを選ぶ（貪欲法）
+ * 連合一覧を読み込める既知のサーバーが候補。増える数が同じならホスト名順で選び、増えなくなったら打ち切る
+ */
+export function selectCoverageViewpoints(
+	federations: FederationInfo[],
+	knownHosts: Iterable<string>,
+	count: number = 3
+): ViewpointCoverage {
+	const known = new Set(knownHosts);
+	const candidates = Array.from(coveredSets(federations, known)).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	const covered = new Set<string>();
+	const hosts: string[] = [];
+
+	while (hosts.length < count) {
+		let best: [string, Set<string>] | null = null;
+		let bestGain = 0;
+		for (const candidate of candidates) {
+			if (hosts.includes(candidate[0])) continue;
+			let gain = 0;
+			for (const host of candidate[1]) {
+				if (!covered.has(host)) gain++;
+			}
+			if (gain > bestGain) [best, bestGain] = [candidate, gain];
+		}
+		if (!best) break;
+		hosts.push(best[0]);
+		for (const host of best[1]) covered.add(host);
+	}
+
+	return { hosts, covered: covered.size, total: known.size };
+}
+
+/**
+ * 選んだ視点サーバーで既知のサーバーをどれだけ含むかを数える
+ */
+export function measureViewpointCoverage(
+	viewpoints: string[],
+	federations: FederationInfo[],
+	knownHosts: Iterable<string>
+): ViewpointCoverage {
+	const known = new Set(knownHosts);
+	const selected = new Set(viewpoints);
+	const covered = new Set(viewpoints.filter((host) => known.has(host)));
+	for (const fed of federations) {
+		if (selected.has(fed.sourceHost) && known.has(fed.targetHost)) covered.add(fed.targetHost);
+	}
+	return { hosts: viewpoints, covered: covered.size, total: known.size };
+}
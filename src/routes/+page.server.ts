@@ -1,292 +1,81 @@
 import type { PageServerLoad } from './$types';
-import type { ServerInfo } from '$lib/collector';
-
-const JOINMISSKEY_API = 'https://instanceapp.misskey.page/instances.json';
-
-// joinmisskey APIのインスタンス情報をServerInfoに変換
-interface JoinMisskeyInstance {
-	url: string;
-	langs: string[];
-	name?: string;
-	description?: string;
-	isAlive: boolean;
-	value?: number; // アクティビティスコア（直近のアクティビティ指標）
-	dru15?: number; // Daily Read Users (15日平均) - アクティブ閲覧ユーザー数
-	npd15?: number; // Notes Per Day (15日平均) - 1日あたりのノート数
-	meta?: {
-		name?: string;
-		description?: string;
-		version?: string;
-		repositoryUrl?: string;
-		disableRegistration?: boolean;
-		emailRequiredForSignup?: boolean;
-		approvalRequiredForSignup?: boolean;
-		iconUrl?: string;
-		serverRules?: string[];
-		policies?: {
-			canInvite?: boolean;
-		};
-	};
-	nodeinfo?: {
-		software?: {
-			name?: string;
-			version?: string;
-			repository?: string;
-		};
-		usage?: {
-			users?: {
-				total?: number;
-			};
-			localPosts?: number;
-		};
-		openRegistrations?: boolean;
-	};
-	iconUrl?: string;
-}
-
-interface JoinMisskeyResponse {
-	instancesInfos: JoinMisskeyInstance[];
-}
-
-function convertToServerInfo(instance: JoinMisskeyInstance): ServerInfo | null {
-	if (!instance.isAlive) return null;
-
-	const version = instance.nodeinfo?.software?.version ?? instance.meta?.version ?? '';
-	const usersCount = instance.nodeinfo?.usage?.users?.total ?? null;
-
-	// リポジトリURLを取得
-	const repositoryUrl = instance.nodeinfo?.software?.repository ?? instance.meta?.repositoryUrl ?? null;
-
-	// 年齢制限の推測（name, description, serverRulesから判定）
-	const serverRulesText = (instance.meta?.serverRules ?? []).join(' ');
-	const allText = `${instance.name ?? ''} ${instance.description ?? ''} ${serverRulesText}`.toLowerCase();
-
-	let ageRestriction: 'all' | '13+' | '18+' | 'unknown' = 'unknown';
-
-	// 18+判定パターン
-	const is18Plus = /18\+|18歳以上|成人|成年|アダルト|r-?18|nsfw/.test(allText);
-	// 13+判定パターン
-	const is13Plus = /13\+|13歳|13才|中学生以上/.test(allText);
-
-	if (is18Plus) {
-		ageRestriction = '18+';
-	} else if (is13Plus) {
-		ageRestriction = '13+';
-	} else if (instance.meta?.emailRequiredForSignup) {
-		// メール必須サーバーは13+と推測（多くのサービスが13歳以上を要求）
-		ageRestriction = '13+';
-	}
-
-	// URLからホスト名を抽出
-	let host = instance.url;
+import { dev } from '$app/environment';
+import { getSnapshotStore, getSnapshotAge } from '$lib/snapshot';
+import { crawlFederationSnapshot } from '$lib/crawler';
+import { DEFAULT_LANGUAGES } from '$lib/types';
+import { parseSession } from '$lib/auth';
+import { validatePublicHost } from '$lib/host';
+import { checkRateLimit } from '$lib/rateLimit';
+import { getSeedFederation, type SeedFederationResult } from '$lib/seedFederation';
+
+// URLで指定された視点サーバーのうち、SSRで取得を始める数の上限
+const MAX_STREAMED_SEEDS = 10;
+
+export const load: PageServerLoad = async ({ fetch, platform, url, cookies, getClientAddress, isDataRequest, untrack }) => {
 	try {
-		// URLの場合はホスト名を抽出
-		if (host.includes('://')) {
-			host = new URL(host).hostname;
+		const store = getSnapshotStore(platform);
+		let [snapshot, snapshotDates] = await Promise.all([store.getLatest(), store.listDates()]);
+
+		// ローカル開発ではクロールが走らないため、初回のみその場で作成する
+		// 表示を長く待たせないよう、種サーバーとその近傍に絞ってクロールする
+		if (!snapshot && dev) {
+			snapshot = await crawlFederationSnapshot(fetch, { maxHosts: 60, maxDiscoveredHosts: 10 });
+			await store.put(snapshot);
+			snapshotDates = await store.listDates();
 		}
-		// 末尾のスラッシュを削除
-		host = host.replace(/\/$/, '');
-	} catch {
-		// パースに失敗したらそのまま使用
-	}
-
-	// 登録状態の判定
-	const registrationOpen = instance.nodeinfo?.openRegistrations ??
-		(instance.meta?.disableRegistration !== true);
-
-	// 承認制の判定
-	const approvalRequired = instance.meta?.approvalRequiredForSignup === true;
 
-	// 招待制の判定（canInviteがfalseの場合、招待できない=招待制ではない）
-	// ただし、登録が閉じていて承認制でない場合は招待制の可能性が高い
-	const inviteOnly = !registrationOpen && !approvalRequired;
-
-	// アイコンURLを取得（相対パスの場合は絶対URLに変換）
-	let iconUrl = instance.iconUrl ?? instance.meta?.iconUrl ?? null;
-	if (iconUrl && !iconUrl.startsWith('http')) {
-		iconUrl = `https://${host}${iconUrl.startsWith('/') ? '' : '/'}${iconUrl}`;
-	}
-
-	return {
-		host,
-		name: instance.name ?? instance.meta?.name ?? null,
-		description: instance.description ?? instance.meta?.description ?? null,
-		usersCount,
-		notesCount: instance.nodeinfo?.usage?.localPosts ?? null,
-		iconUrl,
-		softwareName: instance.nodeinfo?.software?.name ?? 'misskey',
-		softwareVersion: version,
-		repositoryUrl,
-		registrationOpen,
-		emailRequired: instance.meta?.emailRequiredForSignup === true,
-		approvalRequired,
-		inviteOnly,
-		ageRestriction,
-		dru15: instance.dru15 ?? null,
-		npd15: instance.npd15 ?? null
-	};
-}
-
-interface FederationInfo {
-	sourceHost: string;
-	targetHost: string;
-	usersCount: number;
-	notesCount: number;
-	isBlocked: boolean;
-	isSuspended: boolean;
-}
-
-// 主要サーバーから連合情報を取得（ブロック/サスペンド情報も含む）
-async function fetchFederations(seedHost: string, knownHosts: Set<string>): Promise<FederationInfo[]> {
-	try {
-		const res = await fetch(`https://${seedHost}/api/federation/instances`, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ limit: 100, sort: '+pubSub' })
-		});
-
-		if (!res.ok) return [];
-
-		const instances = (await res.json()) as Array<{
-			host: string;
-			usersCount?: number;
-			notesCount?: number;
-			isBlocked?: boolean;
-			isSuspended?: boolean;
-		}>;
-
-		// 正常な連合関係のみ返す（ブロック/サスペンドは除外）
-		return instances
-			.filter((inst) => !inst.isBlocked && !inst.isSuspended && knownHosts.has(inst.host))
-			.map((inst) => ({
-				sourceHost: seedHost,
-				targetHost: inst.host,
-				usersCount: inst.usersCount ?? 0,
-				notesCount: inst.notesCount ?? 0,
-				isBlocked: false,
-				isSuspended: false
-			}));
-	} catch {
-		return [];
-	}
-}
-
-// ブロック/サスペンド関係を取得
-async function fetchBlockedRelations(seedHost: string, knownHosts: Set<string>): Promise<FederationInfo[]> {
-	try {
-		const res = await fetch(`https://${seedHost}/api/federation/instances`, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ limit: 30, blocked: true })
-		});
-
-		if (!res.ok) return [];
-
-		const instances = (await res.json()) as Array<{
-			host: string;
-			usersCount?: number;
-			notesCount?: number;
-			isBlocked?: boolean;
-			isSuspended?: boolean;
-		}>;
-
-		return instances
-			.filter((inst) => knownHosts.has(inst.host))
-			.map((inst) => ({
-				sourceHost: seedHost,
-				targetHost: inst.host,
-				usersCount: inst.usersCount ?? 0,
-				notesCount: inst.notesCount ?? 0,
-				isBlocked: inst.isBlocked ?? false,
-				isSuspended: inst.isSuspended ?? false
-			}));
-	} catch {
-		return [];
-	}
-}
-
-export const load: PageServerLoad = async ({ fetch }) => {
-	try {
-		const res = await fetch(JOINMISSKEY_API);
-		if (!res.ok) {
-			console.error('Failed to fetch joinmisskey API:', res.status);
-			return { servers: [], federations: [] };
+		if (!snapshot) {
+			console.error('No federation snapshot available yet');
+			return { servers: [], federations: [], defaultViewpoints: [], snapshotAt: null, snapshotAge: null, snapshotDates: [] };
 		}
 
-		const data = (await res.json()) as JoinMisskeyResponse;
-
-		// 日本語サーバーのみをフィルタリング
-		const japaneseServers = data.instancesInfos
-			.filter((instance) => instance.langs.includes('ja'))
-			.map(convertToServerInfo)
-			.filter((server): server is ServerInfo => server !== null);
-
-		const knownHosts = new Set(japaneseServers.map((s) => s.host));
-
-		// ヘルパー関数: URLからホスト名を抽出
-		const extractHost = (url: string): string => {
-			let host = url;
-			try {
-				if (host.includes('://')) {
-					host = new URL(host).hostname;
+		// スナップショットにない視点サーバー（URLの from）は取得を始めるだけで待たずに返し、
+		// 各サーバーの結果はそれぞれ届きしだいストリーミングする
+		// 視点の追加・削除で from が変わるたびにスナップショットを送り直さないよう from は依存として数えず、
+		// 最初のページ読み込み以外（クライアントからの再読み込み）では取得しない（クライアントが自分で取得する）
+		const snapshotSeeds = new Set(snapshot.federations.map((fed) => fed.sourceHost));
+		const seedFederations: Record<string, Promise<SeedFederationResult>> = {};
+		const fromParams = isDataRequest ? [] : untrack(() => url.searchParams.getAll('from'));
+		const missingSeeds = Array.from(
+			new Set(
+				fromParams
+					.map((input) => validatePublicHost(input))
+					.flatMap((checked) => (checked.ok && !snapshotSeeds.has(checked.host) ? [checked.host] : []))
+			)
+		).slice(0, MAX_STREAMED_SEEDS);
+
+		// /api/federation と同じく1サーバーごとにレート制限を数え、
+		// 超えた分はストリーミングせず、クライアントからの取得に任せる
+		const session = missingSeeds.length > 0 ? parseSession(cookies.get('missmap_session')) : null;
+		for (const host of missingSeeds) {
+			if (await checkRateLimit({ platform, getClientAddress }, 'federation')) break;
+			const authToken = session && session.host.toLowerCase() === host ? session.token : null;
+			seedFederations[host] = getSeedFederation(host, { platform, authToken }).catch(
+				(e): SeedFederationResult => {
+					console.error(`Failed to load federation of ${host}:`, e);
+					return { ok: false, status: 500, error: 'FETCH_FAILED', message: `${host} から連合情報を取得できませんでした` };
 				}
-				host = host.replace(/\/$/, '');
-			} catch {
-				// パースに失敗したらそのまま使用
-			}
-			return host;
-		};
-
-		// 全基準（dru15, npd15, users）のトップ10を事前計算（クライアント側でAPI呼び出し不要に）
-		const topByDru15 = data.instancesInfos
-			.filter((instance) => instance.langs.includes('ja') && instance.isAlive && (instance.dru15 ?? 0) > 0)
-			.sort((a, b) => (b.dru15 ?? 0) - (a.dru15 ?? 0))
-			.slice(0, 10)
-			.map(instance => extractHost(instance.url));
-
-		const topByNpd15 = data.instancesInfos
-			.filter((instance) => instance.langs.includes('ja') && instance.isAlive && (instance.npd15 ?? 0) > 0)
-			.sort((a, b) => (b.npd15 ?? 0) - (a.npd15 ?? 0))
-			.slice(0, 10)
-			.map(instance => extractHost(instance.url));
-
-		const topByUsers = japaneseServers
-			.filter((server) => (server.usersCount ?? 0) > 0)
-			.sort((a, b) => (b.usersCount ?? 0) - (a.usersCount ?? 0))
-			.slice(0, 10)
-			.map(server => server.host);
-
-		// 全候補を統合（重複排除）
-		const allCandidates = Array.from(new Set([...topByDru15, ...topByNpd15, ...topByUsers]));
-
-		// 全候補の連合情報を並列取得（一度に全部取得して使い回す）
-		const [federationsArrays, blockedArrays] = await Promise.all([
-			Promise.all(allCandidates.map((host) => fetchFederations(host, knownHosts))),
-			Promise.all(allCandidates.map((host) => fetchBlockedRelations(host, knownHosts)))
-		]);
-		const federations = [...federationsArrays.flat(), ...blockedArrays.flat()];
-
-		// 連合情報が取得できたサーバーのセット
-		const serversWithFederation = new Set<string>();
-		for (const fed of federations) {
-			serversWithFederation.add(fed.sourceHost);
+			);
 		}
 
-		// 各基準のトップ候補を連合情報があるものだけにフィルタリング
-		const filteredTopByDru15 = topByDru15.filter(host => serversWithFederation.has(host));
-		const filteredTopByNpd15 = topByNpd15.filter(host => serversWithFederation.has(host));
-		const filteredTopByUsers = topByUsers.filter(host => serversWithFederation.has(host));
-
 		return {
-			servers: japaneseServers,
-			federations,
-			defaultViewpoints: filteredTopByDru15.slice(0, 3), // デフォルトはdru15の上位3件
-			topByDru15: filteredTopByDru15,
-			topByNpd15: filteredTopByNpd15,
-			topByUsers: filteredTopByUsers
+			servers: snapshot.servers,
+			federations: snapshot.federations,
+			// デフォルトは既定の言語圏のdru15の上位3件
+			defaultViewpoints: (snapshot.topByLanguage?.[DEFAULT_LANGUAGES[0]]?.dru15 ?? snapshot.topByDru15).slice(0, 3),
+			topByDru15: snapshot.topByDru15,
+			topByNpd15: snapshot.topByNpd15,
+			topByUsers: snapshot.topByUsers,
+			topByLanguage: snapshot.topByLanguage ?? null, // 言語ごとのトップ候補
+			coverageByLanguage: snapshot.coverageByLanguage ?? null, // 言語ごとの網羅性を重視した候補（クロール時に計算）
+			truncatedHosts: snapshot.truncatedHosts ?? [], // 連合・ブロック一覧が一部のみのサーバー
+			snapshotAt: snapshot.fetchedAt,
+			snapshotAge: getSnapshotAge(snapshot),
+			snapshotDates, // 履歴として参照できる日付（古い順）
+			seedFederations // スナップショットにない視点サーバーの連合情報（ストリーミング）
 		};
 	} catch (e) {
 		console.error('Failed to load servers:', e);
-		return { servers: [], federations: [], defaultViewpoints: [] };
+		return { servers: [], federations: [], defaultViewpoints: [], snapshotAt: null, snapshotAge: null, snapshotDates: [] };
 	}
 };
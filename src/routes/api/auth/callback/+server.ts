@@ -1,6 +1,8 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getAppSecret } from '$lib/auth';
+import { misskeyApi, formatMisskeyError } from '$lib/misskey';
+import { validatePublicHost } from '$lib/host';
 import { dev } from '$app/environment';
 
 // Web Crypto APIを使用してSHA-256ハッシュを生成
@@ -28,12 +30,19 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 		return json({ error: 'Invalid request body' }, { status: 400 });
 	}
 
-	const { token, host } = data;
+	const { token } = data;
 
-	if (!token || !host) {
+	if (!token || !data.host) {
 		return json({ error: 'Token and host are required' }, { status: 400 });
 	}
 
+	// ログイン時と同じく正規化する（公開DNS名以外は受け付けない）
+	const checked = validatePublicHost(data.host);
+	if (!checked.ok) {
+		return json({ error: checked.message, reason: checked.reason }, { status: 400 });
+	}
+	const host = checked.host;
+
 	try {
 		// 共有モジュールからappSecretを取得
 		const appSecret = getAppSecret(host);
@@ -46,23 +55,19 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 		}
 
 		// ユーザーキーを取得
-		const userKeyRes = await fetch(`https://${host}/api/auth/session/userkey`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'User-Agent': 'missmap/1.0 (Fediverse Map)'
-			},
-			body: JSON.stringify({ appSecret, token })
-		});
+		const userKeyRes = await misskeyApi<{ accessToken: string; user: MisskeyUser }>(
+			host,
+			'auth/session/userkey',
+			{ appSecret, token },
+			{ retries: 0 }
+		);
 
 		if (!userKeyRes.ok) {
-			const errorText = await userKeyRes.text();
-			console.error('Failed to get userkey:', errorText);
+			console.error('Failed to get userkey:', formatMisskeyError(userKeyRes.error));
 			return json({ error: '認証に失敗しました' }, { status: 401 });
 		}
 
-		const { accessToken, user: misskeyUser }: { accessToken: string; user: MisskeyUser } =
-			await userKeyRes.json();
+		const { accessToken, user: misskeyUser } = userKeyRes.data;
 
 		// アクセストークンのハッシュを生成（Misskey方式）
 		const hashedToken = await sha256(accessToken + appSecret);
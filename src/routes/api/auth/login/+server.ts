@@ -2,6 +2,9 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { MiAuthSession } from '$lib/types';
 import { getAppSecret, setAppSecret, deleteAppSecret } from '$lib/auth';
+import { misskeyApi, formatMisskeyError } from '$lib/misskey';
+import { validatePublicHost } from '$lib/host';
+import { checkRateLimit } from '$lib/rateLimit';
 
 const APP_NAME = 'missmap';
 const APP_DESCRIPTION = 'Fediverse連合マップ - あなたの宇宙を探索しよう';
@@ -9,48 +12,37 @@ const PERMISSIONS = ['read:account', 'read:federation', 'write:notes', 'write:dr
 
 // インスタンスがMisskey系かどうかを確認
 async function isMisskeyInstance(host: string): Promise<{ isMisskey: boolean; error?: string }> {
-	try {
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), 10000); // 10秒タイムアウト
-
-		const res = await fetch(`https://${host}/api/meta`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'User-Agent': 'missmap/1.0 (Fediverse Map)'
-			},
-			body: JSON.stringify({}),
-			signal: controller.signal
-		});
-
-		clearTimeout(timeoutId);
+	const res = await misskeyApi<{ version?: string }>(host, 'meta');
 
-		if (!res.ok) {
-			console.log(`[Login] /api/meta returned ${res.status} for ${host}`);
-			return { isMisskey: false, error: `サーバーからエラー応答 (${res.status})` };
+	if (!res.ok) {
+		const { error } = res;
+		console.log(`[Login] /api/meta failed for ${host}: ${formatMisskeyError(error)}`);
+		if (error.kind === 'TIMEOUT') {
+			return { isMisskey: false, error: 'サーバーへの接続がタイムアウトしました' };
 		}
-
-		const data = await res.json();
-		// Misskey系ならversionが存在する
-		if (data.version) {
-			console.log(`[Login] Detected Misskey ${data.version} on ${host}`);
-			return { isMisskey: true };
+		if (error.kind === 'NETWORK_ERROR') {
+			return { isMisskey: false, error: `接続エラー: ${error.message}` };
 		}
-
-		return { isMisskey: false, error: 'Misskey APIが見つかりません' };
-	} catch (e) {
-		const error = e as Error;
-		if (error.name === 'AbortError') {
-			console.log(`[Login] Timeout checking ${host}`);
-			return { isMisskey: false, error: 'サーバーへの接続がタイムアウトしました' };
+		if (error.kind === 'INVALID_RESPONSE') {
+			return { isMisskey: false, error: 'Misskey APIが見つかりません' };
 		}
-		console.log(`[Login] Error checking ${host}:`, error.message);
-		return { isMisskey: false, error: `接続エラー: ${error.message}` };
+		return { isMisskey: false, error: `サーバーからエラー応答 (${error.status})` };
 	}
+
+	// Misskey系ならversionが存在する
+	if (res.data?.version) {
+		console.log(`[Login] Detected Misskey ${res.data.version} on ${host}`);
+		return { isMisskey: true };
+	}
+
+	return { isMisskey: false, error: 'Misskey APIが見つかりません' };
 }
 
-export const POST: RequestHandler = async ({ request, url }) => {
-	let data: { host: string };
+export const POST: RequestHandler = async ({ request, url, platform, getClientAddress }) => {
+	const limited = await checkRateLimit({ platform, getClientAddress }, 'login');
+	if (limited) return limited;
+
+	let data: { host?: unknown };
 
 	try {
 		data = await request.json();
@@ -58,12 +50,17 @@ export const POST: RequestHandler = async ({ request, url }) => {
 		return json({ error: 'Invalid request body' }, { status: 400 });
 	}
 
-	const host = data.host?.toLowerCase().trim();
-
-	if (!host) {
+	if (!data.host || typeof data.host !== 'string' || !data.host.trim()) {
 		return json({ error: 'Host is required' }, { status: 400 });
 	}
 
+	// 公開DNS名のみ受け付ける（IPアドレスや内部向けの名前への問い合わせを防ぐ）
+	const checked = validatePublicHost(data.host);
+	if (!checked.ok) {
+		return json({ error: checked.message, reason: checked.reason }, { status: 400 });
+	}
+	const host = checked.host;
+
 	try {
 		// Misskey系インスタンスかチェック
 		const checkResult = await isMisskeyInstance(host);
@@ -81,49 +78,42 @@ export const POST: RequestHandler = async ({ request, url }) => {
 		let appSecret = getAppSecret(host);
 
 		if (!appSecret) {
-			// アプリを新規登録
-			const appRes = await fetch(`https://${host}/api/app/create`, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'User-Agent': 'missmap/1.0 (Fediverse Map)'
-				},
-				body: JSON.stringify({
+			// アプリを新規登録（重複登録を避けるため再試行しない）
+			const appRes = await misskeyApi<{ secret: string }>(
+				host,
+				'app/create',
+				{
 					name: APP_NAME,
 					description: APP_DESCRIPTION,
 					permission: PERMISSIONS,
 					callbackUrl
-				})
-			});
+				},
+				{ retries: 0 }
+			);
 
 			if (!appRes.ok) {
-				const errorText = await appRes.text();
-				console.error('Failed to create app:', errorText);
+				console.error('Failed to create app:', formatMisskeyError(appRes.error));
 				return json(
 					{ error: 'アプリの登録に失敗しました' },
 					{ status: 500 }
 				);
 			}
 
-			const appData = await appRes.json();
-			appSecret = appData.secret;
-			setAppSecret(host, appSecret!);
+			appSecret = appRes.data.secret;
+			setAppSecret(host, appSecret);
 		}
 
 		// 認証セッションを生成
-		const sessionRes = await fetch(`https://${host}/api/auth/session/generate`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'User-Agent': 'missmap/1.0 (Fediverse Map)'
-			},
-			body: JSON.stringify({ appSecret })
-		});
+		const sessionRes = await misskeyApi<MiAuthSession>(
+			host,
+			'auth/session/generate',
+			{ appSecret },
+			{ retries: 0 }
+		);
 
 		if (!sessionRes.ok) {
 			// アプリシークレットが無効な場合はキャッシュをクリアしてリトライを促す
-			const errorData = await sessionRes.json().catch(() => ({}));
-			if (errorData?.error?.code === 'NO_SUCH_APP') {
+			if (sessionRes.error.kind === 'NO_SUCH_APP') {
 				deleteAppSecret(host);
 				return json(
 					{ error: 'アプリ登録が期限切れです。もう一度お試しください。' },
@@ -136,7 +126,7 @@ export const POST: RequestHandler = async ({ request, url }) => {
 			);
 		}
 
-		const session: MiAuthSession = await sessionRes.json();
+		const session = sessionRes.data;
 
 		return json({
 			token: session.token,
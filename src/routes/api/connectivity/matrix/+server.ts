@@ -0,0 +1,43 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { validatePublicHost } from '$lib/host';
+import { checkRateLimit } from '$lib/rateLimit';
+import { MAX_MATRIX_HOSTS, streamConnectivityMatrix } from '$lib/connectivity';
+
+// サーバー一覧の全ペアの疎通確認（結果を得られた順に NDJSON で返す）
+export const POST: RequestHandler = async ({ request, platform, getClientAddress }) => {
+	const limited = await checkRateLimit({ platform, getClientAddress }, 'connectivityMatrix');
+	if (limited) return limited;
+
+	const body = (await request.json().catch(() => ({}))) as { hosts?: unknown };
+	if (!Array.isArray(body.hosts)) {
+		return json({ error: 'hosts is required' }, { status: 400 });
+	}
+
+	// 公開DNS名のみ受け付ける（IPアドレスや内部向けの名前への問い合わせを防ぐ）
+	const hosts = new Set<string>();
+	for (const input of body.hosts) {
+		const checked = validatePublicHost(input);
+		if (!checked.ok) {
+			return json({ error: 'INVALID_HOST', reason: checked.reason, message: checked.message }, { status: 400 });
+		}
+		hosts.add(checked.host);
+	}
+
+	if (hosts.size < 2) {
+		return json({ error: 'at least two different hosts are required' }, { status: 400 });
+	}
+	if (hosts.size > MAX_MATRIX_HOSTS) {
+		return json(
+			{ error: 'TOO_MANY_HOSTS', message: `一度に確認できるサーバーは${MAX_MATRIX_HOSTS}件までです` },
+			{ status: 400 }
+		);
+	}
+
+	return new Response(streamConnectivityMatrix(Array.from(hosts)), {
+		headers: {
+			'Content-Type': 'application/x-ndjson; charset=utf-8',
+			'Cache-Control': 'no-store'
+		}
+	});
+};
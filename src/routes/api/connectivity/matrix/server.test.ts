@@ -0,0 +1,59 @@
+// 一括確認の入力の検証（ホスト名・件数）と NDJSON での応答を確かめる
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './+server';
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+// クライアントごとのレート制限に掛からないよう、呼び出しごとに別のアドレスにする
+let client = 0;
+
+function post(body: unknown) {
+	const address = `203.0.113.${++client}`;
+	return POST({
+		request: new Request('https://missmap.example/api/connectivity/matrix', {
+			method: 'POST',
+			body: JSON.stringify(body)
+		}),
+		platform: undefined,
+		getClientAddress: () => address
+	} as unknown as Parameters<typeof POST>[0]);
+}
+
+describe('POST /api/connectivity/matrix', () => {
+	it('公開DNS名でないサーバーを含めば問い合わせずに 400 を返す', async () => {
+		const fetchSpy = vi.fn();
+		vi.stubGlobal('fetch', fetchSpy);
+
+		const res = await post({ hosts: ['misskey.io', '127.0.0.1'] });
+
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'INVALID_HOST', reason: 'IP_ADDRESS' });
+		expect(fetchSpy).not.toHaveBeenCalled();
+	});
+
+	it('重複を除いて2台未満、または上限を超える場合は 400 を返す', async () => {
+		expect((await post({ hosts: ['misskey.io', 'MISSKEY.IO'] })).status).toBe(400);
+		expect((await post({})).status).toBe(400);
+
+		const tooMany = Array.from({ length: 11 }, (_, i) => `s${i}.misskey.io`);
+		const res = await post({ hosts: tooMany });
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'TOO_MANY_HOSTS' });
+	});
+
+	it('全ての向き付きペアの結果を NDJSON で返す', async () => {
+		vi.stubGlobal('fetch', async () =>
+			Response.json({ host: 'x', latestRequestReceivedAt: new Date().toISOString() })
+		);
+
+		const res = await post({ hosts: ['a.misskey.io', 'b.misskey.io', 'c.misskey.io'] });
+		const lines = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+
+		expect(res.headers.get('Content-Type')).toBe('application/x-ndjson; charset=utf-8');
+		expect(lines.filter((line) => line.type === 'result')).toHaveLength(6);
+		expect(lines.at(-1)).toEqual({ type: 'done', total: 6 });
+	});
+});
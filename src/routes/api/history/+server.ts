@@ -0,0 +1,31 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getSnapshotStore, getSnapshotDate } from '$lib/snapshot';
+
+// 保存済みスナップショットの取得
+// - ?date=YYYY-MM-DD: その日のスナップショット
+// - 指定なし: 取得可能な日付の一覧
+export const GET: RequestHandler = async ({ url, platform }) => {
+	const store = getSnapshotStore(platform);
+	const date = url.searchParams.get('date');
+
+	if (!date) {
+		return json({ dates: await store.listDates() });
+	}
+
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+		return json({ error: 'INVALID_DATE', message: '日付は YYYY-MM-DD の形式で指定してください' }, { status: 400 });
+	}
+
+	const snapshot = await store.getByDate(date);
+	if (!snapshot) {
+		return json({ error: 'NOT_FOUND', message: `${date} のスナップショットはありません` }, { status: 404 });
+	}
+
+	// 過去の日付のスナップショットは変化しないため長めにキャッシュする
+	// 今日の分は定期クロールのたびに上書きされるため、毎回確認させる
+	const isPast = date < getSnapshotDate(new Date().toISOString());
+	return json(snapshot, {
+		headers: { 'Cache-Control': isPast ? 'public, max-age=3600' : 'no-cache' }
+	});
+};
@@ -1,6 +1,7 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { parseSession } from '$lib/auth';
+import { misskeyApi, formatMisskeyError } from '$lib/misskey';
 
 export const POST: RequestHandler = async ({ request, cookies }) => {
 	const sessionCookie = cookies.get('missmap_session');
@@ -51,33 +52,28 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 			const fileName = `missmap-${Date.now()}.${extension}`;
 			const file = new File([bytes as BlobPart], fileName, { type: mimeType });
 			const formData = new FormData();
-			formData.append('i', token);
 			formData.append('file', file);
 			formData.append('name', fileName);
 			formData.append('comment', 'Missmap Federation Graph');
 
 			console.log('Uploading to:', `https://${host}/api/drive/files/create`);
 
-			const uploadRes = await fetch(`https://${host}/api/drive/files/create`, {
-				method: 'POST',
-				headers: {
-					'User-Agent': 'Missmap/1.0 (https://missmap.pages.dev)'
-				},
-				body: formData
+			// 書き込み系のため再試行しない（アップロードには時間がかかるためタイムアウトは長め）
+			const uploadRes = await misskeyApi<{ id: string }>(host, 'drive/files/create', formData, {
+				token,
+				retries: 0,
+				timeoutMs: 30000
 			});
 
-			console.log('Upload response status:', uploadRes.status);
-
 			if (!uploadRes.ok) {
-				const errorText = await uploadRes.text();
-				console.error('Drive upload failed:', uploadRes.status, errorText);
+				const errorText = formatMisskeyError(uploadRes.error);
+				console.error('Drive upload failed:', errorText);
 				// アップロード失敗しても続行（画像なしで共有）
 				if (uploadOnly) {
 					return json({ error: `Failed to upload image: ${errorText}` }, { status: 500 });
 				}
 			} else {
-				const uploadData = await uploadRes.json();
-				fileId = uploadData.id;
+				fileId = uploadRes.data.id;
 				console.log('Upload success, fileId:', fileId);
 			}
 		}
@@ -92,7 +88,6 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 
 		// ノートを作成
 		const noteBody: Record<string, unknown> = {
-			i: token,
 			text,
 			visibility: 'home'
 		};
@@ -101,22 +96,18 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 			noteBody.fileIds = [fileId];
 		}
 
-		const noteRes = await fetch(`https://${host}/api/notes/create`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'User-Agent': 'Missmap/1.0 (https://missmap.pages.dev)'
-			},
-			body: JSON.stringify(noteBody)
+		// 二重投稿を避けるため再試行しない
+		const noteRes = await misskeyApi<{ createdNote?: { id: string } }>(host, 'notes/create', noteBody, {
+			token,
+			retries: 0
 		});
 
 		if (!noteRes.ok) {
-			const errorText = await noteRes.text();
-			console.error('Note creation failed:', errorText);
+			console.error('Note creation failed:', formatMisskeyError(noteRes.error));
 			return json({ error: 'Failed to create note' }, { status: 500 });
 		}
 
-		const noteData = await noteRes.json();
+		const noteData = noteRes.data;
 
 		return json({
 			success: true,